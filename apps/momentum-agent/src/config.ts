@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import { OrderlyKeystore, type OrderlyConfig } from '@aadenman/orderly-connector';
 
 dotenv.config();
 
@@ -6,6 +7,12 @@ export interface Config {
   mode: 'paper' | 'live';
   symbol: string;
   startBalance: number;
+  leverage: number; // paper account leverage
+  // Append-only record of every result, replayed to resume the account on restart
+  ledger?: {
+    path: string;
+    backend: 'jsonl' | 'sqlite';
+  };
 
   orderly: {
     baseUrl: string;
@@ -13,6 +20,10 @@ export interface Config {
     accountId: string;
     publicKey: string;
     secretKey: string;
+    // Named profile in an encrypted keystore, used instead of the plaintext keys
+    profile?: string;
+    keystorePath: string;
+    keystorePassword?: string;
   };
 
   anthropic: {
@@ -24,13 +35,21 @@ export function loadConfig(): Config {
   const mode = (process.env.MODE || 'paper') as 'paper' | 'live';
   const symbol = process.env.SYMBOL || 'PERP_BTC_USDC';
   const startBalance = parseFloat(process.env.START_BAL || '10000');
+  const leverage = parseFloat(process.env.LEVERAGE || '10');
+  const ledgerBackend = process.env.LEDGER_BACKEND || 'jsonl';
+  const ledger = process.env.LEDGER_PATH
+    ? { path: process.env.LEDGER_PATH, backend: ledgerBackend as 'jsonl' | 'sqlite' }
+    : undefined;
 
   const orderly = {
-    baseUrl: process.env.ORDERLY_BASE || 'https://api-evm.orderly.org',
-    wsUrl: process.env.ORDERLY_WS_PUBLIC || 'wss://ws-evm.orderly.org/ws/stream',
+    baseUrl: process.env.ORDERLY_BASE || '',
+    wsUrl: process.env.ORDERLY_WS_PUBLIC || '',
     accountId: process.env.ORDERLY_ACCOUNT_ID || '',
     publicKey: process.env.ORDERLY_PUBLIC_KEY || '',
     secretKey: process.env.ORDERLY_SECRET_KEY || '',
+    profile: process.env.ORDERLY_PROFILE || undefined,
+    keystorePath: process.env.ORDERLY_KEYSTORE || '.orderly-profiles.json',
+    keystorePassword: process.env.ORDERLY_KEYSTORE_PASSWORD || undefined,
   };
 
   const anthropic = {
@@ -38,11 +57,23 @@ export function loadConfig(): Config {
   };
 
   // Validate required fields
+  if (!(leverage > 0)) {
+    throw new Error('LEVERAGE must be a positive number');
+  }
+
+  if (ledgerBackend !== 'jsonl' && ledgerBackend !== 'sqlite') {
+    throw new Error('LEDGER_BACKEND must be jsonl or sqlite');
+  }
+
   if (!anthropic.apiKey) {
     throw new Error('ANTHROPIC_API_KEY is required');
   }
 
-  if (mode === 'live') {
+  if (orderly.profile && !orderly.keystorePassword) {
+    throw new Error('ORDERLY_KEYSTORE_PASSWORD is required when ORDERLY_PROFILE is set');
+  }
+
+  if (mode === 'live' && !orderly.profile) {
     if (!orderly.accountId || !orderly.publicKey || !orderly.secretKey) {
       throw new Error('Orderly credentials required for live mode');
     }
@@ -52,7 +83,37 @@ export function loadConfig(): Config {
     mode,
     symbol,
     startBalance,
+    leverage,
+    ledger,
     orderly,
     anthropic,
   };
 }
+
+// Builds the connector config, signing with the keystore profile when one is selected.
+// Explicit ORDERLY_BASE / ORDERLY_WS_PUBLIC take precedence over the profile's URLs.
+export async function resolveOrderlyConfig(orderly: Config['orderly']): Promise<OrderlyConfig> {
+  const defaults = {
+    baseUrl: orderly.baseUrl || 'https://api-evm.orderly.org',
+    wsUrl: orderly.wsUrl || 'wss://ws-evm.orderly.org/ws/stream',
+  };
+
+  if (!orderly.profile) {
+    return {
+      ...defaults,
+      accountId: orderly.accountId,
+      publicKey: orderly.publicKey,
+      secretKey: orderly.secretKey,
+    };
+  }
+
+  const keystore = await OrderlyKeystore.open(orderly.keystorePath);
+  const profile = keystore.getProfile(orderly.profile);
+  const signer = await keystore.getSigner(orderly.profile, orderly.keystorePassword!);
+
+  return {
+    baseUrl: orderly.baseUrl || profile?.baseUrl || defaults.baseUrl,
+    wsUrl: orderly.wsUrl || profile?.wsUrl || defaults.wsUrl,
+    signer,
+  };
+}
@@ -1,9 +1,21 @@
-import { OrderlyRestClient } from "@aadenman/orderly-connector";
-import { TimerTick } from "@aadenman/tick";
-import { PaperExecutor } from "@aadenman/execution";
+import {
+  OrderlyRestClient,
+  OrderlyWebSocketClient,
+  PriceFeed,
+} from "@aadenman/orderly-connector";
+import { PriceChangeTick } from "@aadenman/tick";
+import {
+  PaperExecutor,
+  LiveFundingRates,
+  marginRulesFromInfo,
+  OrderlyExecutor,
+  Portfolio,
+  ValidatingExecutor,
+  symbolRulesFromInfo,
+} from "@aadenman/execution";
 import { LLMAgent, AgentRunner } from "@aadenman/agent";
-import { PriceManager } from "./price-manager.js";
-import { loadConfig } from "./config.js";
+import { JsonlLedgerBackend, Ledger, SqliteLedgerBackend } from "@aadenman/ledger";
+import { loadConfig, resolveOrderlyConfig } from "./config.js";
 
 async function main() {
   console.log("📈 Momentum Trading Agent Starting...\n");
@@ -12,38 +24,91 @@ async function main() {
 
   console.log(`Mode: ${config.mode}`);
   console.log(`Symbol: ${config.symbol}`);
-  console.log(`Start Balance: $${config.startBalance}\n`);
-
-  // Create REST client
-  const restClient = new OrderlyRestClient({
-    baseUrl: config.orderly.baseUrl,
-    wsUrl: config.orderly.wsUrl,
-    accountId: config.orderly.accountId,
-    publicKey: config.orderly.publicKey,
-    secretKey: config.orderly.secretKey,
-  });
-
-  // Setup price manager with REST polling
-  const priceManager = new PriceManager(restClient);
-  console.log("Starting price polling...");
-  await priceManager.subscribeSymbol(config.symbol, 1000);
+  if (config.mode !== "live") {
+    console.log(`Start Balance: $${config.startBalance}`);
+  }
+  console.log(`Leverage: ${config.leverage}x\n`);
 
-  // Wait a moment for initial price
-  await new Promise((resolve) => setTimeout(resolve, 2000));
+  // Create REST and WebSocket clients
+  const orderlyConfig = await resolveOrderlyConfig(config.orderly);
+  if (config.orderly.profile) {
+    console.log(`Orderly profile: ${config.orderly.profile} (${orderlyConfig.signer?.accountId})\n`);
+  }
+  const restClient = new OrderlyRestClient(orderlyConfig);
+  const wsClient = new OrderlyWebSocketClient(orderlyConfig);
+
+  // Setup price feed: WebSocket ticker with REST polling fallback
+  const priceFeed = new PriceFeed({ rest: restClient, ws: wsClient, pollIntervalMs: 1000 });
+  console.log("Starting price feed...");
+  wsClient.connect().catch((error) => {
+    console.error("WebSocket unavailable, using REST polling:", error);
+  });
+  await priceFeed.subscribe(config.symbol);
 
-  const initialPrice = priceManager.getPrice(config.symbol);
-  if (initialPrice === 0) {
+  const initialPrice = priceFeed.getPrice(config.symbol);
+  if (!initialPrice) {
     console.error("Failed to get initial price. Exiting...");
     process.exit(1);
   }
 
   console.log(`Initial price: $${initialPrice.toFixed(2)}\n`);
 
-  // Create executor (paper mode for now)
-  const executor = new PaperExecutor({
-    slippage: 0.001,
-    takerFee: 0.0005,
-  });
+  // Create executor, quantizing orders to the symbol's exchange rules
+  const symbolInfo = await restClient.getSymbolInfo(config.symbol);
+  let paper: PaperExecutor | undefined;
+  if (config.mode !== "live") {
+    paper = new PaperExecutor({
+      slippage: 0.001,
+      takerFee: 0.0005,
+      makerFee: 0.0002,
+      // Taker fills walk the live book; flat slippage only while it is unsynced
+      books: { [config.symbol]: wsClient.subscribeOrderbook(config.symbol) },
+      leverage: config.leverage,
+      marginRules: { [config.symbol]: marginRulesFromInfo(symbolInfo) },
+      funding: {
+        rates: new LiveFundingRates(restClient),
+        periodHours: { [config.symbol]: symbolInfo.fundingPeriodHours },
+      },
+    });
+    // Resting paper orders fill as the live price crosses them
+    priceFeed.onPrice(config.symbol, (quote) => paper!.updatePrice(quote.symbol, quote.price));
+  }
+
+  const rules = { [config.symbol]: symbolRulesFromInfo(symbolInfo) };
+  const live = paper ? undefined : new OrderlyExecutor({ client: restClient, rules });
+  const executor = new ValidatingExecutor({ executor: paper ?? live!, rules });
+
+  // Live accounts resume from the exchange and the ledger is only an audit trail;
+  // paper accounts resume from the ledger, or open with the start balance
+  let ledger: Ledger | undefined;
+  if (config.ledger) {
+    const backend = config.ledger.backend === "sqlite"
+      ? await SqliteLedgerBackend.open(config.ledger.path)
+      : await JsonlLedgerBackend.open(config.ledger.path);
+    ledger = await Ledger.open(backend);
+  }
+
+  let portfolio = new Portfolio(config.startBalance);
+  if (live) {
+    const account = await live.getAccount(config.symbol);
+    portfolio = new Portfolio(account.cash, account.positions);
+    console.log(
+      `Exchange account: cash $${account.cash.toFixed(2)}, equity $${account.equity.toFixed(2)}, ` +
+      `${account.positions?.length ?? 0} open position(s)\n`
+    );
+  } else if (ledger) {
+    const state = await ledger.replay();
+    if (state.lastSeq > 0) {
+      portfolio = new Portfolio(state.cash, state.positions);
+      console.log(
+        `Resumed from ledger ${config.ledger!.path}: cash $${state.cash.toFixed(2)}, ` +
+        `${state.positions.length} open position(s), realized PnL $${state.realizedPnl.toFixed(2)}\n`
+      );
+    } else {
+      await ledger.deposit(config.startBalance);
+      console.log(`Started ledger ${config.ledger!.path}\n`);
+    }
+  }
 
   // Create LLM agent with momentum strategy
   const agent = new LLMAgent({
@@ -85,8 +150,14 @@ Example reasoning:
 - "Sideways movement, no clear momentum - HOLD"`,
   });
 
-  // Create tick (5 second timer)
-  const tick = new TimerTick(5000);
+  // Decide on 10 bps moves, at most every 5 seconds and at least once a minute
+  const tick = new PriceChangeTick({
+    source: priceFeed,
+    symbol: config.symbol,
+    thresholdBps: 10,
+    minIntervalMs: 5000,
+    maxIntervalMs: 60000,
+  });
 
   // Create agent runner
   const runner = new AgentRunner({
@@ -95,9 +166,11 @@ Example reasoning:
     agent,
     executor,
     tick,
-    initialCash: config.startBalance,
+    portfolio,
+    ledger,
     cooldownMs: 5000,
-    getCurrentPrice: () => priceManager.getPrice(config.symbol),
+    maxPriceAgeMs: 10000,
+    getCurrentPrice: (symbol) => priceFeed.getQuote(symbol),
     onResult: (result) => {
       // Log results (can add metrics here later)
       if (result.success) {
@@ -112,10 +185,12 @@ Example reasoning:
   runner.start();
 
   // Graceful shutdown
-  process.on("SIGINT", () => {
+  process.on("SIGINT", async () => {
     console.log("\n🛑 Shutting down...");
     runner.stop();
-    priceManager.stop();
+    priceFeed.stop();
+    wsClient.disconnect();
+    await ledger?.close();
     process.exit(0);
   });
 
@@ -1,6 +1,8 @@
-import type { Tick } from '@aadenman/tick';
-import type { Executor, Position, ExecutionResult } from '@aadenman/execution';
-import type { Agent, AgentContext } from './types.js';
+import { systemClock, type Clock } from '@aadenman/clock';
+import { describeTickEvent, type Tick, type TickEvent } from '@aadenman/tick';
+import { Portfolio, type Executor, type ExecutionResult } from '@aadenman/execution';
+import type { Ledger } from '@aadenman/ledger';
+import type { Agent, AgentContext, PriceSample } from './types.js';
 
 export interface AgentRunnerConfig {
   name: string;
@@ -8,10 +10,17 @@ export interface AgentRunnerConfig {
   agent: Agent;
   executor: Executor;
   tick: Tick;
-  initialCash: number;
+  // Pass one portfolio to several runners to trade a single account; otherwise
+  // the runner gets its own, funded with initialCash
+  portfolio?: Portfolio;
+  initialCash?: number;
   cooldownMs?: number;
-  getCurrentPrice: () => number;
+  maxPriceAgeMs?: number;
+  getCurrentPrice: (symbol: string) => number | PriceSample | undefined;
   onResult?: (result: ExecutionResult) => void;
+  // Every result is appended here; share one ledger between runners sharing a portfolio
+  ledger?: Ledger;
+  clock?: Clock;
 }
 
 export class AgentRunner {
@@ -20,16 +29,17 @@ export class AgentRunner {
   private agent: Agent;
   private executor: Executor;
   private tick: Tick;
-  private getCurrentPrice: () => number;
+  private getCurrentPrice: (symbol: string) => number | PriceSample | undefined;
   private onResult?: (result: ExecutionResult) => void;
+  private ledger?: Ledger;
 
-  private cash: number;
-  private position: Position;
-  private equity: number;
+  private portfolio: Portfolio;
   private running = false;
   private executing = false;
   private lastExecutionTime = 0;
   private cooldownMs: number;
+  private maxPriceAgeMs?: number;
+  private clock: Clock;
 
   constructor(config: AgentRunnerConfig) {
     this.name = config.name;
@@ -39,22 +49,22 @@ export class AgentRunner {
     this.tick = config.tick;
     this.getCurrentPrice = config.getCurrentPrice;
     this.onResult = config.onResult;
+    this.ledger = config.ledger;
     this.cooldownMs = config.cooldownMs ?? 5000; // 5s default
+    this.maxPriceAgeMs = config.maxPriceAgeMs;
+    this.clock = config.clock ?? systemClock;
 
-    this.cash = config.initialCash;
-    this.equity = config.initialCash;
-    this.position = {
-      symbol: config.symbol,
-      qty: 0,
-      avgPrice: 0,
-      side: 'NONE',
-    };
+    if (!config.portfolio && config.initialCash === undefined) {
+      throw new Error(`[${config.name}] AgentRunner needs a portfolio or initialCash`);
+    }
+    this.portfolio = config.portfolio ?? new Portfolio(config.initialCash!);
   }
 
   start(): void {
     if (this.running) return;
 
     this.running = true;
+    this.executor.onUpdate?.(this.onUpdate);
     this.tick.onTick(this.onTick);
     this.tick.start();
 
@@ -67,17 +77,18 @@ export class AgentRunner {
     this.running = false;
     this.tick.stop();
     this.tick.offTick(this.onTick);
+    this.executor.offUpdate?.(this.onUpdate);
 
     console.log(`[${this.name}] Stopped`);
   }
 
-  private onTick = async (): Promise<void> => {
+  private onTick = async (event: TickEvent): Promise<void> => {
     if (this.executing) {
       console.log(`[${this.name}] Skipping tick (already executing)`);
       return;
     }
 
-    const now = Date.now();
+    const now = this.clock.now();
     if (now - this.lastExecutionTime < this.cooldownMs) {
       console.log(`[${this.name}] Skipping tick (cooldown)`);
       return;
@@ -87,7 +98,7 @@ export class AgentRunner {
     this.lastExecutionTime = now;
 
     try {
-      await this.execute();
+      await this.execute(event);
     } catch (error) {
       console.error(`[${this.name}] Execution error:`, error);
     } finally {
@@ -95,61 +106,176 @@ export class AgentRunner {
     }
   };
 
-  private async execute(): Promise<void> {
-    const currentPrice = this.getCurrentPrice();
+  // Resting order fills, funding and liquidations arrive here, outside of any tick.
+  // The executor is one account, so every update belongs in the portfolio whatever
+  // its symbol; with a shared portfolio the first runner to hear it handles it
+  private onUpdate = (result: ExecutionResult): void => {
+    const symbol = result.position.symbol;
+    if (!this.portfolio.apply(result)) return;
+
+    if (result.funding !== undefined) {
+      console.log(
+        `[${this.name}] Funding ${symbol} ${result.funding >= 0 ? 'received' : 'paid'}: ` +
+        `$${Math.abs(result.funding).toFixed(2)} at rate ${((result.fundingRate ?? 0) * 100).toFixed(4)}%, ` +
+        `equity=$${this.portfolio.getEquity().toFixed(2)}`
+      );
+    } else if (result.liquidation) {
+      console.error(
+        `[${this.name}] Liquidated ${symbol}: ${result.action} ${result.qty.toFixed(4)} @ $${result.price.toFixed(2)}, ` +
+        `pnl=$${(result.pnl ?? 0).toFixed(2)}, equity=$${this.portfolio.getEquity().toFixed(2)}`
+      );
+    } else if (result.success) {
+      console.log(
+        `[${this.name}] Order ${result.orderId} filled ${result.action} ${symbol} (${result.liquidity}): ` +
+        `qty=${result.qty.toFixed(4)}, ` +
+        `price=$${result.price.toFixed(2)}, ` +
+        `equity=$${this.portfolio.getEquity().toFixed(2)}` +
+        (result.pnl ? `, pnl=$${result.pnl.toFixed(2)}` : '')
+      );
+    } else {
+      console.error(`[${this.name}] Order ${result.orderId} failed: ${result.error}`);
+    }
+
+    this.record(result);
+    this.onResult?.(result);
+  };
+
+  private async execute(trigger: TickEvent): Promise<void> {
+    const currentPrice = this.samplePrice(this.symbol);
+    if (currentPrice === undefined) return;
+
+    this.markToMarket();
 
     const context: AgentContext = {
-      symbol: this.symbol,
-      currentPrice,
-      position: this.position,
-      cash: this.cash,
-      equity: this.equity,
-      timestamp: Date.now(),
+      ...this.portfolio.contextFor(this.symbol, currentPrice),
+      timestamp: this.clock.now(),
+      trigger,
     };
+    const { position } = context;
 
     console.log(`\n[${this.name}] Context:`);
+    console.log(`  Trigger: ${describeTickEvent(trigger)}`);
     console.log(`  Price: $${currentPrice.toFixed(2)}`);
-    console.log(`  Position: ${this.position.side} ${Math.abs(this.position.qty).toFixed(4)} @ $${this.position.avgPrice.toFixed(2)}`);
-    console.log(`  Cash: $${this.cash.toFixed(2)}`);
-    console.log(`  Equity: $${this.equity.toFixed(2)}`);
+    console.log(`  Position: ${position.side} ${Math.abs(position.qty).toFixed(4)} @ $${position.avgPrice.toFixed(2)}`);
+    if (position.liquidationPrice) {
+      console.log(`  Liquidation: $${position.liquidationPrice.toFixed(2)}`);
+    }
+    for (const other of context.positions ?? []) {
+      if (other.symbol === this.symbol) continue;
+      console.log(`  ${other.symbol}: ${other.side} ${Math.abs(other.qty).toFixed(4)} @ $${other.avgPrice.toFixed(2)}`);
+    }
+    console.log(`  Cash: $${context.cash.toFixed(2)}`);
+    console.log(`  Equity: $${context.equity.toFixed(2)}`);
 
     const decision = await this.agent.decide(context);
 
-    console.log(`[${this.name}] Decision: ${decision.action} ${decision.qty.toFixed(2)} - ${decision.reason}`);
+    const symbol = decision.symbol ?? this.symbol;
+    const limit = decision.orderType && decision.orderType !== 'MARKET'
+      ? ` ${decision.orderType} @ $${decision.limitPrice}`
+      : '';
+    console.log(
+      `[${this.name}] Decision: ${decision.action} ${decision.qty.toFixed(2)}` +
+      `${symbol !== this.symbol ? ` ${symbol}` : ''}${limit} - ${decision.reason}`
+    );
+
+    const price = symbol === this.symbol ? currentPrice : this.samplePrice(symbol);
+    if (price === undefined) return;
 
     // Convert qty (fraction of equity) to absolute quantity
+    const equity = this.portfolio.getEquity();
     const absoluteQty = decision.action === 'HOLD'
       ? 0
-      : (decision.qty * this.equity) / currentPrice;
+      : (decision.qty * equity) / (decision.limitPrice ?? price);
 
-    const result = await this.executor.execute(decision.action, absoluteQty, context);
+    // Built after deciding: resting orders may have filled in the meantime
+    const result = await this.executor.execute(
+      decision.action,
+      absoluteQty,
+      this.portfolio.contextFor(symbol, price),
+      { type: decision.orderType, price: decision.limitPrice }
+    );
+
+    if (result.adjustment) {
+      console.log(
+        `[${this.name}] Order adjusted: qty ${result.adjustment.requestedQty.toFixed(6)} -> ` +
+        `${result.adjustment.qty} (${result.adjustment.reason})`
+      );
+    }
 
-    if (result.success) {
-      this.cash = result.cash;
-      this.position = result.position;
-      this.equity = result.equity;
+    if (result.success && result.status === 'NEW') {
+      console.log(`[${this.name}] Order ${result.orderId} resting: ${result.action} @ $${result.price.toFixed(2)}`);
+    } else if (result.success) {
+      this.portfolio.apply(result);
 
       console.log(
-        `[${this.name}] Executed ${result.action}: ` +
+        `[${this.name}] Executed ${result.action}${result.status === 'PARTIALLY_FILLED' ? ' (partial)' : ''}` +
+        `${symbol !== this.symbol ? ` ${symbol}` : ''}: ` +
         `qty=${result.qty.toFixed(4)}, ` +
         `price=$${result.price.toFixed(2)}, ` +
-        `equity=$${result.equity.toFixed(2)}` +
+        `equity=$${this.portfolio.getEquity().toFixed(2)}` +
         (result.pnl ? `, pnl=$${result.pnl.toFixed(2)}` : '')
       );
+      if (result.error) {
+        console.error(`[${this.name}] Rest of the order failed: ${result.error}`);
+      }
     } else {
+      // Failures report the account as it stands, which may have moved if part of the order went through
+      this.portfolio.apply(result);
       console.error(`[${this.name}] Execution failed: ${result.error}`);
     }
 
+    this.record(result);
     this.onResult?.(result);
   }
 
+  // Not awaited: the ledger keeps call order, and trading goes on if a write fails
+  private record(result: ExecutionResult): void {
+    this.ledger?.record(result).catch((error) => {
+      console.error(`[${this.name}] Ledger write failed:`, error);
+    });
+  }
+
+  // Latest usable price for a symbol, or undefined (logged) when missing or stale
+  private samplePrice(symbol: string): number | undefined {
+    const sample = this.getCurrentPrice(symbol);
+    const price = typeof sample === 'number' ? sample : sample?.price ?? 0;
+
+    if (!(price > 0)) {
+      console.log(`[${this.name}] Skipping tick (no price for ${symbol})`);
+      return undefined;
+    }
+
+    if (typeof sample === 'object' && this.maxPriceAgeMs !== undefined) {
+      const age = this.clock.now() - sample.timestamp;
+      if (age > this.maxPriceAgeMs) {
+        console.log(`[${this.name}] Skipping tick (${symbol} price is ${(age / 1000).toFixed(1)}s old)`);
+        return undefined;
+      }
+    }
+
+    return price;
+  }
+
+  // Marks every open position so equity reflects all symbols, not just this runner's
+  private markToMarket(): void {
+    for (const position of this.portfolio.getPositions()) {
+      const sample = this.getCurrentPrice(position.symbol);
+      const price = typeof sample === 'number' ? sample : sample?.price;
+      if (price !== undefined) {
+        this.portfolio.setMark(position.symbol, price);
+      }
+    }
+  }
+
   getStats() {
     return {
       name: this.name,
       symbol: this.symbol,
-      cash: this.cash,
-      position: this.position,
-      equity: this.equity,
+      cash: this.portfolio.getCash(),
+      position: this.portfolio.getPosition(this.symbol),
+      positions: this.portfolio.getPositions(),
+      equity: this.portfolio.getEquity(),
+      fundingPnl: this.portfolio.getFundingPnl(),
     };
   }
 }
@@ -1,4 +1,5 @@
 import Anthropic from '@anthropic-ai/sdk';
+import { describeTickEvent, type TickEvent } from '@aadenman/tick';
 import type { Agent, AgentContext, AgentDecision } from './types.js';
 
 export interface LLMAgentConfig {
@@ -21,11 +22,15 @@ You must respond with a JSON object with this exact structure:
 {
   "action": "BUY" | "SELL" | "HOLD",
   "qty": <number between 0 and 1, representing fraction of equity to use>,
-  "reason": "<brief explanation of your decision>"
+  "reason": "<brief explanation of your decision>",
+  "orderType": "MARKET" | "LIMIT" | "POST_ONLY" | "IOC" | "FOK" (optional, default MARKET),
+  "limitPrice": <number, required for any orderType other than MARKET>,
+  "symbol": "<symbol to trade>" (optional, defaults to the current symbol)
 }
 
 Rules:
 - qty represents the fraction of your total equity to allocate (0.0 to 1.0)
+- LIMIT and POST_ONLY orders rest until the price reaches limitPrice; POST_ONLY is rejected if it would fill immediately; IOC fills what it can at limitPrice or better and cancels the rest, FOK fills completely or not at all
 - Consider risk management and position sizing
 - Provide clear reasoning for your decisions
 - If uncertain, prefer HOLD over risky trades`;
@@ -65,16 +70,16 @@ export class LLMAgent implements Agent {
   }
 
   private buildPrompt(context: AgentContext): string {
-    const { currentPrice, position, cash, equity, symbol } = context;
+    const { currentPrice, position, cash, equity, symbol, trigger } = context;
 
     return `Symbol: ${symbol}
 Current Price: $${currentPrice.toFixed(2)}
-
+${trigger ? `Triggered by: ${describeTickEvent(trigger)}\n${this.formatCandles(trigger)}` : ''}
 Position:
 - Side: ${position.side}
 - Quantity: ${position.qty}
 - Average Price: $${position.avgPrice.toFixed(2)}
-
+${position.liquidationPrice ? `- Liquidation Price: $${position.liquidationPrice.toFixed(2)}\n` : ''}${this.formatOtherPositions(context)}
 Account:
 - Cash: $${cash.toFixed(2)}
 - Total Equity: $${equity.toFixed(2)}
@@ -82,6 +87,25 @@ Account:
 What is your trading decision?`;
   }
 
+  private formatOtherPositions(context: AgentContext): string {
+    const others = (context.positions ?? []).filter((p) => p.symbol !== context.symbol);
+    if (others.length === 0) return '';
+
+    const rows = others.map((p) => `- ${p.symbol}: ${p.side} ${p.qty} @ $${p.avgPrice.toFixed(2)}`);
+    return `\nOther positions:\n${rows.join('\n')}\n`;
+  }
+
+  private formatCandles(trigger: TickEvent): string {
+    if (trigger.reason !== 'candle-close' || !trigger.payload.candles?.length) return '';
+
+    const rows = trigger.payload.candles.map(
+      (c) =>
+        `- ${new Date(c.openTime).toISOString()} O ${c.open.toFixed(2)} H ${c.high.toFixed(2)} ` +
+        `L ${c.low.toFixed(2)} C ${c.close.toFixed(2)} V ${c.volume}`
+    );
+    return `\nRecent ${trigger.payload.candle.interval} candles (oldest first):\n${rows.join('\n')}\n`;
+  }
+
   private parseDecision(text: string): AgentDecision {
     try {
       // Extract JSON from text (handle markdown code blocks)
@@ -100,11 +124,25 @@ What is your trading decision?`;
       const qty = typeof parsed.qty === 'number' ? parsed.qty : 0;
       const clampedQty = Math.max(0, Math.min(1, qty));
 
-      return {
+      const decision: AgentDecision = {
         action: parsed.action,
         qty: clampedQty,
         reason: parsed.reason || 'No reason provided',
       };
+
+      if (typeof parsed.symbol === 'string' && parsed.symbol) {
+        decision.symbol = parsed.symbol;
+      }
+
+      if (['LIMIT', 'POST_ONLY', 'IOC', 'FOK'].includes(parsed.orderType)) {
+        if (!(typeof parsed.limitPrice === 'number' && parsed.limitPrice > 0)) {
+          throw new Error(`${parsed.orderType} order without a valid limitPrice`);
+        }
+        decision.orderType = parsed.orderType;
+        decision.limitPrice = parsed.limitPrice;
+      }
+
+      return decision;
     } catch (error) {
       console.error('[LLM Agent] Parse error:', error);
       return { action: 'HOLD', qty: 0, reason: 'Failed to parse decision' };
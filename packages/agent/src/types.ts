@@ -1,13 +1,24 @@
-import type { ActionType, ExecutionContext } from '@aadenman/execution';
+import type { ActionType, ExecutionContext, OrderType } from '@aadenman/execution';
+import type { TickEvent } from '@aadenman/tick';
 
 export interface AgentDecision {
   action: ActionType;
   qty: number;
   reason: string;
+  symbol?: string; // defaults to the runner's symbol
+  orderType?: OrderType; // default MARKET
+  limitPrice?: number; // required for any orderType other than MARKET
+}
+
+export interface PriceSample {
+  price: number;
+  timestamp: number;
 }
 
 export interface AgentContext extends ExecutionContext {
   timestamp: number;
+  // The tick that triggered this decision
+  trigger?: TickEvent;
 }
 
 export interface Agent {
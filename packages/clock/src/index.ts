@@ -0,0 +1,3 @@
+export * from './types.js';
+export * from './system-clock.js';
+export * from './virtual-clock.js';
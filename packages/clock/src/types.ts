@@ -0,0 +1,15 @@
+declare const timerBrand: unique symbol;
+
+// Opaque handle returned by Clock.setTimeout
+export interface TimerHandle {
+  readonly [timerBrand]: true;
+}
+
+// Source of time and timers. Code that takes a Clock runs unchanged on wall-clock
+// time (SystemClock) or on simulated time (VirtualClock).
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, delayMs: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  sleep(ms: number): Promise<void>;
+}
@@ -0,0 +1,116 @@
+import type { Clock, TimerHandle } from './types.js';
+
+interface VirtualTimer {
+  id: number;
+  time: number;
+  callback: () => void;
+}
+
+export interface RunOptions {
+  // Stop once simulated time would pass this timestamp
+  until?: number;
+  // Guard against timers that keep rescheduling themselves forever (default 1,000,000)
+  maxTimers?: number;
+}
+
+// Simulated time that only moves when told to. Timers fire in time order, and pending
+// promise callbacks are flushed after each one, so async handlers that schedule
+// follow-up timers behave as they would in real time.
+export class VirtualClock implements Clock {
+  private time: number;
+  private timers: VirtualTimer[] = [];
+  private nextId = 1;
+
+  constructor(startTime = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): TimerHandle {
+    const timer: VirtualTimer = {
+      id: this.nextId++,
+      time: this.time + Math.max(0, delayMs || 0),
+      callback,
+    };
+
+    // Keep sorted by time, then by creation order
+    let index = this.timers.length;
+    while (index > 0 && this.timers[index - 1].time > timer.time) index--;
+    this.timers.splice(index, 0, timer);
+
+    return timer.id as unknown as TimerHandle;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    const id = handle as unknown as number;
+    const index = this.timers.findIndex((t) => t.id === id);
+    if (index >= 0) this.timers.splice(index, 1);
+  }
+
+  sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => this.setTimeout(resolve, ms));
+  }
+
+  pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  // Time of the next scheduled timer, if any
+  nextTimerTime(): number | undefined {
+    return this.timers[0]?.time;
+  }
+
+  // Fires every timer due within `ms`, then leaves the clock at now + ms
+  async advance(ms: number): Promise<void> {
+    await this.advanceTo(this.time + ms);
+  }
+
+  async advanceTo(time: number): Promise<void> {
+    if (time < this.time) {
+      throw new Error(`Cannot move a VirtualClock backwards (${time} < ${this.time})`);
+    }
+
+    await this.run({ until: time });
+    this.time = time;
+  }
+
+  // Fires the next timer, jumping time forward to it. Returns false when none are left.
+  async runNext(): Promise<boolean> {
+    const timer = this.timers.shift();
+    if (!timer) return false;
+
+    this.time = Math.max(this.time, timer.time);
+    timer.callback();
+    await flushMicrotasks();
+    return true;
+  }
+
+  // Runs timers as fast as possible until none are left or `until` is reached.
+  // Returns the number of timers fired.
+  async run(options: RunOptions = {}): Promise<number> {
+    const maxTimers = options.maxTimers ?? 1_000_000;
+    let fired = 0;
+
+    await flushMicrotasks();
+
+    while (this.timers.length > 0) {
+      if (options.until !== undefined && this.timers[0].time > options.until) break;
+      if (fired >= maxTimers) {
+        throw new Error(`VirtualClock.run stopped after ${maxTimers} timers; a timer may be rescheduling itself`);
+      }
+
+      await this.runNext();
+      fired++;
+    }
+
+    return fired;
+  }
+}
+
+// Lets promise chains started by a timer callback settle before the next timer fires
+function flushMicrotasks(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
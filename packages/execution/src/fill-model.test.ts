@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { bookFromSnapshot, impactPrice, walkBook } from './fill-model.js';
+
+const asks = [{ price: 101, qty: 1 }, { price: 102, qty: 2 }, { price: 104, qty: 5 }];
+
+describe('walkBook', () => {
+  it('takes levels best first at a volume-weighted price', () => {
+    expect(walkBook(asks, 'BUY', 2)).toEqual({ qty: 2, price: 101.5, source: 'book' });
+  });
+
+  it('stops at the limit price', () => {
+    expect(walkBook(asks, 'BUY', 5, 102)).toEqual({ qty: 3, price: (101 + 204) / 3, source: 'book' });
+    expect(walkBook([{ price: 99, qty: 1 }, { price: 98, qty: 1 }], 'SELL', 2, 99)).toMatchObject({ qty: 1, price: 99 });
+  });
+
+  it('fills only what the book holds', () => {
+    expect(walkBook(asks, 'BUY', 10)).toMatchObject({ qty: 8 });
+    expect(walkBook([], 'BUY', 1)).toEqual({ qty: 0, price: 0, source: 'book' });
+  });
+});
+
+describe('bookFromSnapshot', () => {
+  it('sorts bids down and asks up', () => {
+    const book = bookFromSnapshot({ bids: [[98, 1], [99, 1]], asks: [[102, 1], [101, 1]] });
+    expect(book.getBids().map((l) => l.price)).toEqual([99, 98]);
+    expect(book.getAsks().map((l) => l.price)).toEqual([101, 102]);
+  });
+});
+
+describe('impactPrice', () => {
+  it('adds square-root impact on top of the flat slippage', () => {
+    expect(impactPrice('BUY', 1, 100, 0.001)).toBeCloseTo(100.1);
+    expect(impactPrice('SELL', 1, 100, 0.001)).toBeCloseTo(99.9);
+    // 4x the calibrated notional pays twice the coefficient
+    expect(impactPrice('BUY', 400, 100, 0, { coefficient: 0.001, notional: 10_000 })).toBeCloseTo(100.2);
+  });
+});
@@ -0,0 +1,61 @@
+import type { OrderBookLevel, OrderBookSnapshot } from '@aadenman/orderly-connector';
+import type { Side } from './types.js';
+
+// Anything that can list book levels best first; LocalOrderBook satisfies this
+export interface OrderBookView {
+  getBids(): OrderBookLevel[];
+  getAsks(): OrderBookLevel[];
+  isSynced?(): boolean;
+}
+
+// Square-root impact used when no book is available: the order pays
+// `coefficient` on top of the flat slippage when its notional equals `notional`
+export interface MarketImpact {
+  coefficient: number; // 0.001 = 0.1%
+  notional: number; // quote notional the coefficient is calibrated at
+}
+
+export interface FillEstimate {
+  qty: number; // may be less than requested when the book runs out
+  price: number; // volume-weighted
+  source: 'book' | 'impact';
+}
+
+// A recorded snapshot as a book view, e.g. for backtests
+export function bookFromSnapshot(snapshot: Pick<OrderBookSnapshot, 'bids' | 'asks'>): OrderBookView {
+  const bids = snapshot.bids.map(([price, qty]) => ({ price, qty })).sort((a, b) => b.price - a.price);
+  const asks = snapshot.asks.map(([price, qty]) => ({ price, qty })).sort((a, b) => a.price - b.price);
+  return { getBids: () => bids, getAsks: () => asks };
+}
+
+// Takes liquidity level by level, stopping at the limit price if one is given
+export function walkBook(levels: OrderBookLevel[], side: Side, qty: number, limitPrice?: number): FillEstimate {
+  let filled = 0;
+  let notional = 0;
+
+  for (const level of levels) {
+    const remaining = qty - filled;
+    if (remaining <= 1e-12) break;
+    if (limitPrice !== undefined && (side === 'BUY' ? level.price > limitPrice : level.price < limitPrice)) break;
+
+    const take = Math.min(level.qty, remaining);
+    filled += take;
+    notional += take * level.price;
+  }
+
+  return { qty: filled, price: filled > 0 ? notional / filled : 0, source: 'book' };
+}
+
+export function impactPrice(
+  side: Side,
+  qty: number,
+  price: number,
+  slippage: number,
+  impact?: MarketImpact
+): number {
+  const extra = impact && impact.notional > 0
+    ? impact.coefficient * Math.sqrt((qty * price) / impact.notional)
+    : 0;
+  const cost = slippage + extra;
+  return side === 'BUY' ? price * (1 + cost) : price * (1 - cost);
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { HistoricalFundingRates, fundingPayment, nextFundingTime } from './funding.js';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('nextFundingTime', () => {
+  it('lands on the next UTC-aligned boundary, strictly after', () => {
+    expect(nextFundingTime(0, 8)).toBe(8 * HOUR);
+    expect(nextFundingTime(7 * HOUR, 8)).toBe(8 * HOUR);
+    expect(nextFundingTime(8 * HOUR, 8)).toBe(16 * HOUR);
+    expect(nextFundingTime(30 * 60 * 1000, 1)).toBe(HOUR);
+  });
+});
+
+describe('fundingPayment', () => {
+  it('has longs pay and shorts receive a positive rate', () => {
+    expect(fundingPayment(2, 100, 0.001)).toBeCloseTo(-0.2);
+    expect(fundingPayment(-2, 100, 0.001)).toBeCloseTo(0.2);
+    expect(fundingPayment(2, 100, -0.001)).toBeCloseTo(0.2);
+  });
+});
+
+describe('HistoricalFundingRates', () => {
+  const rates = new HistoricalFundingRates([
+    { symbol: 'A', fundingRate: 0.0002, fundingRateTime: 16 * HOUR, nextFundingTime: 24 * HOUR },
+    { symbol: 'A', fundingRate: 0.0001, fundingRateTime: 8 * HOUR, nextFundingTime: 16 * HOUR },
+  ]);
+
+  it('looks up the settlement closest to the funding time', async () => {
+    expect(await rates.getRate('A', 8 * HOUR)).toBe(0.0001);
+    expect(await rates.getRate('A', 16 * HOUR + 60_000)).toBe(0.0002);
+  });
+
+  it('does not guess a settlement outside the tolerance or for another symbol', async () => {
+    expect(await rates.getRate('A', 24 * HOUR)).toBeUndefined();
+    expect(await rates.getRate('B', 8 * HOUR)).toBeUndefined();
+  });
+});
@@ -0,0 +1,84 @@
+import type { FundingRateHistoryEntry, OrderlyRestClient } from '@aadenman/orderly-connector';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Rate settled at `fundingTime` as a fraction of notional; positive means longs pay shorts
+export interface FundingRateSource {
+  getRate(symbol: string, fundingTime: number): Promise<number | undefined>;
+}
+
+// Funding settles on UTC-aligned boundaries, e.g. 00:00, 08:00 and 16:00 for 8h
+export function nextFundingTime(after: number, periodHours: number): number {
+  const periodMs = periodHours * HOUR_MS;
+  return Math.floor(after / periodMs) * periodMs + periodMs;
+}
+
+// Signed payment for holding `qty` through a settlement; positive is received
+export function fundingPayment(qty: number, markPrice: number, rate: number): number {
+  return -qty * markPrice * rate;
+}
+
+// Current rates from the exchange's public funding endpoint
+export class LiveFundingRates implements FundingRateSource {
+  constructor(private client: OrderlyRestClient) {}
+
+  async getRate(symbol: string, fundingTime: number): Promise<number | undefined> {
+    const rate = await this.client.getFundingRate(symbol);
+
+    // Once the exchange has settled, the rate it applied is reported as the last one
+    return rate.lastFundingRateTime >= fundingTime ? rate.lastFundingRate : rate.estFundingRate;
+  }
+}
+
+// Settled rates for backtests, looked up by settlement time
+export class HistoricalFundingRates implements FundingRateSource {
+  private series = new Map<string, FundingRateHistoryEntry[]>();
+
+  constructor(
+    entries: FundingRateHistoryEntry[],
+    private toleranceMs = 5 * 60 * 1000
+  ) {
+    for (const entry of entries) {
+      const list = this.series.get(entry.symbol) ?? [];
+      list.push(entry);
+      this.series.set(entry.symbol, list);
+    }
+    for (const list of this.series.values()) {
+      list.sort((a, b) => a.fundingRateTime - b.fundingRateTime);
+    }
+  }
+
+  static async load(
+    client: OrderlyRestClient,
+    symbols: string[],
+    startTime: number,
+    endTime: number
+  ): Promise<HistoricalFundingRates> {
+    const entries: FundingRateHistoryEntry[] = [];
+    for (const symbol of symbols) {
+      entries.push(...(await client.getFundingRateHistory(symbol, startTime, endTime)));
+    }
+    return new HistoricalFundingRates(entries);
+  }
+
+  async getRate(symbol: string, fundingTime: number): Promise<number | undefined> {
+    const list = this.series.get(symbol);
+    if (!list?.length) return undefined;
+
+    // Closest settlement within tolerance; a missing one is not guessed
+    let lo = 0;
+    let hi = list.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (list[mid].fundingRateTime < fundingTime) lo = mid + 1;
+      else hi = mid;
+    }
+
+    const candidates = [list[lo - 1], list[lo]].filter((e): e is FundingRateHistoryEntry => e !== undefined);
+    const closest = candidates.reduce((best, e) =>
+      Math.abs(e.fundingRateTime - fundingTime) < Math.abs(best.fundingRateTime - fundingTime) ? e : best
+    );
+
+    return Math.abs(closest.fundingRateTime - fundingTime) <= this.toleranceMs ? closest.fundingRate : undefined;
+  }
+}
@@ -1,2 +1,10 @@
 export * from './types.js';
+export * from './position.js';
+export * from './margin.js';
+export * from './funding.js';
+export * from './fill-model.js';
+export * from './portfolio.js';
 export * from './paper-executor.js';
+export * from './orderly-executor.js';
+export * from './order-rules.js';
+export * from './validating-executor.js';
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { initialMarginRate, liquidationPrice, summarizeMargin, withLiquidationPrices } from './margin.js';
+import type { Position } from './types.js';
+
+const rules = { baseImr: 0.02, baseMmr: 0.05, maxLeverage: 20 };
+const long = (symbol: string, qty: number, avgPrice: number): Position => ({ symbol, qty, avgPrice, side: 'LONG' });
+const short = (symbol: string, qty: number, avgPrice: number): Position => ({ symbol, qty, avgPrice, side: 'SHORT' });
+
+describe('initialMarginRate', () => {
+  it('caps account leverage at the symbol maximum and never goes below the base IMR', () => {
+    expect(initialMarginRate(10, rules)).toBe(0.1);
+    expect(initialMarginRate(50, rules)).toBe(0.05);
+    expect(initialMarginRate(100, { ...rules, maxLeverage: 0 })).toBe(0.02);
+  });
+});
+
+describe('summarizeMargin', () => {
+  it('draws every position on one collateral pool', () => {
+    const summary = summarizeMargin(
+      1000,
+      [
+        { position: long('A', 1, 100), markPrice: 110, rules },
+        { position: short('B', -2, 50), markPrice: 55, rules },
+      ],
+      10
+    );
+
+    expect(summary.unrealizedPnl).toBe(0);
+    expect(summary.equity).toBe(1000);
+    expect(summary.initialMargin).toBeCloseTo(22);
+    expect(summary.maintenanceMargin).toBeCloseTo(11);
+    expect(summary.freeCollateral).toBeCloseTo(978);
+  });
+});
+
+describe('liquidationPrice', () => {
+  it('is where equity falls to the maintenance margin', () => {
+    const longPrice = liquidationPrice(100, long('A', 1, 1000), 0.05)!;
+    expect(100 + (longPrice - 1000)).toBeCloseTo(0.05 * longPrice);
+
+    const shortPrice = liquidationPrice(100, short('A', -1, 1000), 0.05)!;
+    expect(100 - (shortPrice - 1000)).toBeCloseTo(0.05 * shortPrice);
+    expect(shortPrice).toBeGreaterThan(1000);
+  });
+
+  it('is undefined for a flat or fully backed long', () => {
+    expect(liquidationPrice(100, long('A', 0, 0), 0.05)).toBeUndefined();
+    expect(liquidationPrice(2000, long('A', 1, 1000), 0.05)).toBeUndefined();
+  });
+
+  it('counts the other positions towards the collateral behind each one', () => {
+    const [alone] = withLiquidationPrices(100, [{ position: long('A', 1, 1000), markPrice: 1000, rules }]);
+    const [backed] = withLiquidationPrices(100, [
+      { position: long('A', 1, 1000), markPrice: 1000, rules },
+      { position: long('B', 1, 100), markPrice: 200, rules },
+    ]);
+
+    expect(backed.liquidationPrice!).toBeLessThan(alone.liquidationPrice!);
+  });
+});
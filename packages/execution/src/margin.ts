@@ -0,0 +1,98 @@
+import type { SymbolInfo } from '@aadenman/orderly-connector';
+import type { Position } from './types.js';
+
+export interface MarginRules {
+  baseImr: number; // initial margin rate floor, 0.02 = 50x
+  baseMmr: number; // maintenance margin rate
+  maxLeverage: number;
+}
+
+export interface MarginSummary {
+  collateral: number; // settled balance: deposits plus realized PnL, minus fees
+  unrealizedPnl: number;
+  equity: number;
+  initialMargin: number;
+  maintenanceMargin: number;
+  freeCollateral: number;
+  leverage: number;
+}
+
+export function marginRulesFromInfo(info: SymbolInfo): MarginRules {
+  return {
+    baseImr: info.baseImr,
+    baseMmr: info.baseMmr,
+    maxLeverage: info.maxLeverage,
+  };
+}
+
+// Account leverage is capped by the symbol, and the rate never drops below its base IMR
+export function initialMarginRate(leverage: number, rules: MarginRules): number {
+  const effective = rules.maxLeverage > 0 ? Math.min(leverage, rules.maxLeverage) : leverage;
+  return Math.max(1 / effective, rules.baseImr);
+}
+
+export function unrealizedPnl(position: Position, markPrice: number): number {
+  if (position.qty === 0) return 0;
+  return (markPrice - position.avgPrice) * position.qty;
+}
+
+export interface MarkedPosition {
+  position: Position;
+  markPrice: number;
+  rules: MarginRules;
+}
+
+// Cross margin: every position draws on the same collateral
+export function summarizeMargin(collateral: number, positions: MarkedPosition[], leverage: number): MarginSummary {
+  let upnl = 0;
+  let initialMargin = 0;
+  let maintenanceMargin = 0;
+
+  for (const { position, markPrice, rules } of positions) {
+    const notional = Math.abs(position.qty) * markPrice;
+    upnl += unrealizedPnl(position, markPrice);
+    initialMargin += notional * initialMarginRate(leverage, rules);
+    maintenanceMargin += notional * rules.baseMmr;
+  }
+
+  const equity = collateral + upnl;
+  return {
+    collateral,
+    unrealizedPnl: upnl,
+    equity,
+    initialMargin,
+    maintenanceMargin,
+    freeCollateral: equity - initialMargin,
+    leverage,
+  };
+}
+
+// Mark price at which equity falls to maintenance margin, with collateral backing
+// this one position. Undefined when the position cannot be liquidated.
+export function liquidationPrice(
+  collateral: number,
+  position: Pick<Position, 'qty' | 'avgPrice'>,
+  mmr: number
+): number | undefined {
+  const { qty, avgPrice } = position;
+  if (qty === 0) return undefined;
+
+  // collateral + (P - avg) * qty = mmr * |qty| * P
+  const price = (avgPrice * qty - collateral) / (qty - mmr * Math.abs(qty));
+  return price > 0 && Number.isFinite(price) ? price : undefined;
+}
+
+// Each position's liquidation price with every other mark held where it is; the
+// others' PnL above their own maintenance margin backs this one
+export function withLiquidationPrices(collateral: number, positions: MarkedPosition[]): Position[] {
+  const buffers = positions.map(
+    ({ position, markPrice, rules }) =>
+      unrealizedPnl(position, markPrice) - Math.abs(position.qty) * markPrice * rules.baseMmr
+  );
+  const totalBuffer = buffers.reduce((sum, b) => sum + b, 0);
+
+  return positions.map(({ position, rules }, i) => ({
+    ...position,
+    liquidationPrice: liquidationPrice(collateral + totalBuffer - buffers[i], position, rules.baseMmr),
+  }));
+}
@@ -0,0 +1,88 @@
+import type { SymbolInfo } from '@aadenman/orderly-connector';
+import type { OrderAdjustment } from './types.js';
+
+export interface SymbolRules {
+  baseTick: number; // quantity step
+  quoteTick: number; // price step
+  baseMin: number;
+  baseMax: number;
+  minNotional: number;
+}
+
+export type OrderCheck =
+  | { ok: true; qty: number; adjustment?: OrderAdjustment }
+  | { ok: false; reason: string };
+
+export function symbolRulesFromInfo(info: SymbolInfo): SymbolRules {
+  return {
+    baseTick: info.baseTick,
+    quoteTick: info.quoteTick,
+    baseMin: info.baseMin,
+    baseMax: info.baseMax,
+    minNotional: info.minNotional,
+  };
+}
+
+// Rounds down to a multiple of step, trimming float noise to the step's precision
+export function quantize(value: number, step: number): number {
+  if (step <= 0) return value;
+
+  const decimals = stepDecimals(step);
+  const steps = Math.floor(value / step + 1e-9);
+  return Number((steps * step).toFixed(decimals));
+}
+
+export function quantizePrice(price: number, tick: number, side: 'BUY' | 'SELL'): number {
+  if (tick <= 0) return price;
+
+  // Round towards the passive side so a limit price never crosses further than asked
+  const decimals = stepDecimals(tick);
+  const steps = side === 'BUY' ? Math.floor(price / tick + 1e-9) : Math.ceil(price / tick - 1e-9);
+  return Number((steps * tick).toFixed(decimals));
+}
+
+// Orders that only reduce a position skip the minimums: the exchange accepts
+// them reduce-only, and a dust position could otherwise never be closed
+export function checkOrder(qty: number, price: number, rules: SymbolRules, reducing = false): OrderCheck {
+  let adjusted = qty;
+  const reasons: string[] = [];
+
+  if (rules.baseMax > 0 && adjusted > rules.baseMax) {
+    adjusted = rules.baseMax;
+    reasons.push(`capped at max qty ${rules.baseMax}`);
+  }
+
+  const quantized = quantize(adjusted, rules.baseTick);
+  if (quantized !== adjusted) {
+    adjusted = quantized;
+    reasons.push(`rounded to lot size ${rules.baseTick}`);
+  }
+
+  if (adjusted <= 0 || (!reducing && adjusted < rules.baseMin)) {
+    return { ok: false, reason: `qty ${qty} below minimum ${rules.baseMin}` };
+  }
+
+  const notional = adjusted * price;
+  if (!reducing && notional < rules.minNotional) {
+    return {
+      ok: false,
+      reason: `notional ${notional.toFixed(2)} below minimum ${rules.minNotional}`,
+    };
+  }
+
+  if (reasons.length === 0) {
+    return { ok: true, qty: adjusted };
+  }
+
+  return {
+    ok: true,
+    qty: adjusted,
+    adjustment: { requestedQty: qty, qty: adjusted, reason: reasons.join(', ') },
+  };
+}
+
+function stepDecimals(step: number): number {
+  const text = step.toString();
+  if (text.includes('e-')) return Number(text.split('e-')[1]);
+  return text.includes('.') ? text.split('.')[1].length : 0;
+}
@@ -0,0 +1,263 @@
+import type {
+  OrderlyRestClient,
+  OrderRequest,
+  OrderResponse,
+  Position as OrderlyPosition,
+} from '@aadenman/orderly-connector';
+import { systemClock, type Clock } from '@aadenman/clock';
+import { checkOrder, quantize, type SymbolRules } from './order-rules.js';
+import type {
+  Executor,
+  ExecutionContext,
+  ExecutionResult,
+  ActionType,
+  OrderOptions,
+  Position,
+} from './types.js';
+
+export interface OrderlyExecutorConfig {
+  client: OrderlyRestClient;
+  pollIntervalMs?: number;
+  fillTimeoutMs?: number;
+  // Used to size the opening leg of a flip, which is what remains after the close
+  rules?: Record<string, SymbolRules> | ((symbol: string) => SymbolRules | undefined);
+  clock?: Clock;
+}
+
+const TERMINAL_STATUSES = new Set(['FILLED', 'CANCELLED', 'REJECTED', 'COMPLETED']);
+
+export class OrderlyExecutor implements Executor {
+  private client: OrderlyRestClient;
+  private pollIntervalMs: number;
+  private fillTimeoutMs: number;
+  private getRules: (symbol: string) => SymbolRules | undefined;
+  private clock: Clock;
+
+  constructor(config: OrderlyExecutorConfig) {
+    this.client = config.client;
+    this.pollIntervalMs = config.pollIntervalMs ?? 500;
+    this.fillTimeoutMs = config.fillTimeoutMs ?? 15000;
+    const rules = config.rules ?? {};
+    this.getRules = typeof rules === 'function' ? rules : (symbol) => rules[symbol];
+    this.clock = config.clock ?? systemClock;
+  }
+
+  async execute(
+    action: ActionType,
+    qty: number,
+    context: ExecutionContext,
+    options: OrderOptions = {}
+  ): Promise<ExecutionResult> {
+    if (action === 'HOLD' || qty <= 0) {
+      return {
+        success: true,
+        action,
+        qty: 0,
+        price: context.currentPrice,
+        cash: context.cash,
+        position: context.position,
+        equity: context.equity,
+      };
+    }
+
+    // Kept outside the try so a failure after a partial fill still reports it
+    let placed = false;
+    let filledQty = 0;
+    let filledNotional = 0;
+    let fee = 0;
+    // The reduce-only close on its own: realized PnL is priced at its fill only
+    let closedQty = 0;
+    let closedNotional = 0;
+    let closingFee = 0;
+
+    try {
+      // Live resting orders are not tracked yet; only market orders go out
+      if (options.type && options.type !== 'MARKET') {
+        throw new Error(`${options.type} orders are not supported by OrderlyExecutor`);
+      }
+
+      const { orders, dropped } = this.buildOrders(action, qty, context);
+      for (const order of orders) {
+        const created = await this.client.createOrder(order);
+        placed = true;
+        const final = await this.waitForTerminal(created.order_id, order.symbol);
+
+        filledQty += final.executed_quantity;
+        filledNotional += final.executed_quantity * (final.average_executed_price ?? context.currentPrice);
+        fee += final.total_fee ?? 0;
+        if (order.reduce_only) {
+          closedQty += final.executed_quantity;
+          closedNotional += final.executed_quantity * (final.average_executed_price ?? context.currentPrice);
+          closingFee += final.total_fee ?? 0;
+        }
+
+        // Whatever is left of a flip must not open against a close that did not complete
+        if (final.status !== 'FILLED' && final.status !== 'COMPLETED') {
+          throw new Error(
+            `Order ${final.order_id} ${final.status} with ${final.executed_quantity}/${order.order_quantity} filled`
+          );
+        }
+      }
+
+      return {
+        success: true,
+        action,
+        qty: filledQty,
+        price: filledNotional / filledQty,
+        ...(await this.getAccount(context.symbol)),
+        pnl: this.realizedPnl(context.position, closedQty, closedNotional, closingFee),
+        fee,
+        ...(dropped && { status: 'PARTIALLY_FILLED', error: `Opening leg of the flip not sent: ${dropped}` }),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      // Once anything reached the exchange the caller's view is stale: report
+      // what filled against the account as the exchange now has it
+      if (placed) {
+        try {
+          const account = await this.getAccount(context.symbol);
+          const price = filledQty > 0 ? filledNotional / filledQty : context.currentPrice;
+          return {
+            success: filledQty > 0,
+            action,
+            qty: filledQty,
+            price,
+            ...account,
+            pnl: filledQty > 0 ? this.realizedPnl(context.position, closedQty, closedNotional, closingFee) : undefined,
+            fee,
+            status: filledQty > 0 ? 'PARTIALLY_FILLED' : 'REJECTED',
+            error: message,
+          };
+        } catch (readError) {
+          console.error('[OrderlyExecutor] Failed to read the account after an order error:', readError);
+        }
+      }
+
+      return {
+        success: false,
+        action,
+        qty: 0,
+        price: context.currentPrice,
+        cash: context.cash,
+        position: context.position,
+        equity: context.equity,
+        error: message,
+      };
+    }
+  }
+
+  // Split into a reduce-only close and an opening order when flipping sides.
+  // The opening leg is re-sized to the lot size and left out, with the reason
+  // in `dropped`, when it falls below the symbol's minimums
+  private buildOrders(
+    action: 'BUY' | 'SELL',
+    qty: number,
+    context: ExecutionContext
+  ): { orders: OrderRequest[]; dropped?: string } {
+    const { position, symbol } = context;
+    const closing =
+      (action === 'BUY' && position.side === 'SHORT') ||
+      (action === 'SELL' && position.side === 'LONG');
+
+    if (!closing) {
+      return { orders: [{ symbol, side: action, order_type: 'MARKET', order_quantity: qty }] };
+    }
+
+    const openQty = Math.abs(position.qty);
+    const closeQty = Math.min(qty, openQty);
+    const orders: OrderRequest[] = [
+      { symbol, side: action, order_type: 'MARKET', order_quantity: closeQty, reduce_only: true },
+    ];
+
+    if (qty <= openQty) {
+      return { orders };
+    }
+
+    const rules = this.getRules(symbol);
+    // Without rules, only the float noise of the subtraction is trimmed
+    let remainder = rules ? quantize(qty - openQty, rules.baseTick) : Number((qty - openQty).toPrecision(12));
+
+    if (rules) {
+      const check = checkOrder(remainder, context.currentPrice, rules);
+      if (!check.ok) return { orders, dropped: check.reason };
+      remainder = check.qty;
+    }
+
+    if (remainder > 0) {
+      orders.push({ symbol, side: action, order_type: 'MARKET', order_quantity: remainder });
+    }
+
+    return { orders };
+  }
+
+  // Polls the single order: the /v1/orders list is paginated and can drop it
+  private async waitForTerminal(orderId: string, symbol: string): Promise<OrderResponse> {
+    const deadline = this.clock.now() + this.fillTimeoutMs;
+
+    while (this.clock.now() < deadline) {
+      const order = await this.client.getOrder(orderId);
+      if (order && TERMINAL_STATUSES.has(order.status)) {
+        return order;
+      }
+
+      await this.clock.sleep(this.pollIntervalMs);
+    }
+
+    // Left live, it could fill later without anyone accounting for it
+    console.error(`[OrderlyExecutor] Order ${orderId} not filled within ${this.fillTimeoutMs}ms, cancelling`);
+    try {
+      await this.client.cancelOrder(orderId, symbol);
+    } catch (error) {
+      console.error(`[OrderlyExecutor] Failed to cancel order ${orderId}:`, error);
+    }
+
+    const order = await this.client.getOrder(orderId);
+    if (order && TERMINAL_STATUSES.has(order.status)) {
+      return order;
+    }
+    throw new Error(`Timed out waiting for order ${orderId} to fill`);
+  }
+
+  // Orderly's collateral value already includes unrealized PnL at mark; cash
+  // is what remains without it, as PaperExecutor reports it
+  async getAccount(
+    symbol: string
+  ): Promise<Pick<ExecutionResult, 'cash' | 'position' | 'positions' | 'equity' | 'freeCollateral'>> {
+    const info = await this.client.getPositionsInfo();
+    const open = info.rows.filter((p) => p.position_qty !== 0);
+    const unrealized = open.reduce((sum, p) => sum + (p.mark_price - p.average_open_price) * p.position_qty, 0);
+    const positions = open.map((p) => toPosition(p.symbol, p));
+
+    return {
+      cash: info.total_collateral_value - unrealized,
+      position: positions.find((p) => p.symbol === symbol) ?? toPosition(symbol),
+      positions,
+      equity: info.total_collateral_value,
+      freeCollateral: info.free_collateral,
+    };
+  }
+
+  // From the closing (reduce-only) order's own fill, net of its fee
+  private realizedPnl(position: Position, closedQty: number, closedNotional: number, closingFee: number): number {
+    if (closedQty === 0) return 0;
+
+    const price = closedNotional / closedQty;
+    const direction = position.side === 'SHORT' ? -1 : 1;
+    return (price - position.avgPrice) * closedQty * direction - closingFee;
+  }
+}
+
+function toPosition(symbol: string, remote?: OrderlyPosition): Position {
+  if (!remote || remote.position_qty === 0) {
+    return { symbol, qty: 0, avgPrice: 0, side: 'NONE' };
+  }
+
+  return {
+    symbol,
+    qty: remote.position_qty,
+    avgPrice: remote.average_open_price,
+    side: remote.position_qty > 0 ? 'LONG' : 'SHORT',
+    liquidationPrice: remote.est_liq_price || undefined,
+  };
+}
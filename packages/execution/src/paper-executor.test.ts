@@ -0,0 +1,176 @@
+import { describe, expect, it, vi } from 'vitest';
+import { VirtualClock } from '@aadenman/clock';
+import { bookFromSnapshot } from './fill-model.js';
+import { PaperExecutor, type PaperExecutorConfig } from './paper-executor.js';
+import { flatPosition } from './position.js';
+import type { ExecutionContext, ExecutionResult, Position } from './types.js';
+
+const SYMBOL = 'PERP_ETH_USDC';
+
+function context(price: number, cash: number, position: Position = flatPosition(SYMBOL)): ExecutionContext {
+  return { symbol: SYMBOL, currentPrice: price, position, cash, equity: cash };
+}
+
+// No fees or slippage unless a test asks for them, so the figures stay exact
+function paper(config: PaperExecutorConfig = {}) {
+  const executor = new PaperExecutor({ slippage: 0, takerFee: 0, makerFee: 0, ...config });
+  const updates: ExecutionResult[] = [];
+  executor.onUpdate((result) => { updates.push(result); });
+  return { executor, updates };
+}
+
+describe('PaperExecutor margin', () => {
+  it('rejects an order that needs more initial margin than the account has', async () => {
+    const { executor } = paper({ leverage: 10 });
+
+    const result = await executor.execute('BUY', 101, context(100, 1000));
+    expect(result.success).toBe(false);
+    expect(result.status).toBe('REJECTED');
+    expect(result.error).toMatch(/Insufficient margin/);
+    expect(result.position.qty).toBe(0);
+    expect(result.cash).toBe(1000);
+  });
+
+  it('caps leverage at the symbol maximum', async () => {
+    const { executor } = paper({ leverage: 10, marginRules: { [SYMBOL]: { baseImr: 0, baseMmr: 0.025, maxLeverage: 5 } } });
+
+    expect((await executor.execute('BUY', 51, context(100, 1000))).success).toBe(false);
+    expect((await executor.execute('BUY', 50, context(100, 1000))).success).toBe(true);
+  });
+
+  it('lets a reducing order through even when under-margined', async () => {
+    const { executor } = paper({ leverage: 10 });
+    const open = await executor.execute('BUY', 90, context(100, 1000));
+
+    const result = await executor.execute('SELL', 10, context(95, open.cash, open.position));
+    expect(result.success).toBe(true);
+    expect(result.pnl).toBe(-50);
+    expect(result.position.qty).toBe(80);
+  });
+
+  it('reports a liquidation price and liquidates the account at it', async () => {
+    const { executor, updates } = paper({ leverage: 10, liquidationFee: 0.01 });
+    const open = await executor.execute('BUY', 90, context(100, 1000));
+
+    // 1000 + (P - 100) * 90 = 0.025 * 90 * P
+    const liquidation = open.position.liquidationPrice!;
+    expect(liquidation).toBeCloseTo(8000 / 87.75);
+
+    executor.updatePrice(SYMBOL, 92);
+    expect(updates).toEqual([]);
+
+    executor.updatePrice(SYMBOL, 91);
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ liquidation: true, action: 'SELL', qty: 90, price: 91, status: 'FILLED' });
+    expect(updates[0].fee).toBeCloseTo(90 * 91 * 0.01);
+    expect(updates[0].cash).toBeCloseTo(1000 - 9 * 90 - 90 * 91 * 0.01);
+    expect(executor.getPositions()).toEqual([]);
+  });
+
+  it('never takes collateral below zero on a gap through the liquidation price', async () => {
+    const { executor, updates } = paper({ leverage: 10 });
+    await executor.execute('BUY', 90, context(100, 1000));
+
+    executor.updatePrice(SYMBOL, 50);
+    expect(updates[0].cash).toBe(0);
+  });
+});
+
+describe('PaperExecutor funding', () => {
+  const HOUR = 60 * 60 * 1000;
+  const rates = { getRate: async () => 0.001 };
+
+  it('settles each funding time the position was held through, at the mark before the update', async () => {
+    const clock = new VirtualClock(HOUR);
+    const { executor, updates } = paper({ clock, funding: { rates, periodHours: 8 } });
+    await executor.execute('BUY', 2, context(100, 1000));
+
+    await clock.advanceTo(17 * HOUR);
+    executor.updatePrice(SYMBOL, 110);
+    await vi.waitFor(() => expect(updates).toHaveLength(2));
+
+    expect(updates.map((u) => [u.funding, u.fundingRate, u.price])).toEqual([
+      [-0.2, 0.001, 100],
+      [-0.2, 0.001, 100],
+    ]);
+    expect(updates[1].cash).toBeCloseTo(999.6);
+    expect(executor.getFundingPnl(SYMBOL)).toBeCloseTo(-0.4);
+
+    // Nothing more is due until the next boundary
+    await clock.advanceTo(23 * HOUR);
+    executor.updatePrice(SYMBOL, 110);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(updates).toHaveLength(2);
+  });
+
+  it('pays shorts on a positive rate and skips flat symbols', async () => {
+    const clock = new VirtualClock(HOUR);
+    const { executor, updates } = paper({ clock, funding: { rates, periodHours: { [SYMBOL]: 1 } } });
+    await executor.execute('SELL', 1, context(100, 1000));
+    executor.updatePrice('OTHER', 5);
+
+    await clock.advanceTo(2 * HOUR);
+    executor.updatePrice(SYMBOL, 100);
+    executor.updatePrice('OTHER', 5);
+    await vi.waitFor(() => expect(updates).toHaveLength(1));
+
+    expect(updates[0].funding).toBeCloseTo(0.1);
+    expect(updates[0].position.symbol).toBe(SYMBOL);
+    expect(executor.getFundingPnl()).toBeCloseTo(0.1);
+  });
+
+  it('settles funding due before an order is placed against the old position', async () => {
+    const clock = new VirtualClock(HOUR);
+    const { executor, updates } = paper({ clock, funding: { rates, periodHours: 8 } });
+    const open = await executor.execute('BUY', 1, context(100, 1000));
+
+    await clock.advanceTo(9 * HOUR);
+    const close = await executor.execute('SELL', 1, context(100, open.cash, open.position));
+
+    expect(updates.map((u) => u.funding)).toEqual([-0.1]);
+    expect(close.cash).toBeCloseTo(999.9);
+  });
+});
+
+describe('PaperExecutor book fills', () => {
+  const book = bookFromSnapshot({ bids: [[99, 1], [98, 2]], asks: [[101, 1], [102, 2]] });
+
+  it('walks the book for market orders and reports a partial fill when it runs out', async () => {
+    const { executor } = paper({ books: { [SYMBOL]: book }, takerFee: 0.001 });
+
+    const result = await executor.execute('BUY', 5, context(100, 10_000));
+    expect(result).toMatchObject({ success: true, status: 'PARTIALLY_FILLED', qty: 3, liquidity: 'taker' });
+    expect(result.price).toBeCloseTo(305 / 3);
+    expect(result.fee).toBeCloseTo(0.305);
+    expect(result.position.qty).toBe(3);
+  });
+
+  it('cancels a FOK the book cannot fill and limits an IOC to its price', async () => {
+    const { executor } = paper({ books: { [SYMBOL]: book } });
+
+    const fok = await executor.execute('SELL', 4, context(100, 10_000), { type: 'FOK', price: 90 });
+    expect(fok).toMatchObject({ success: false, status: 'CANCELLED', qty: 0 });
+
+    const ioc = await executor.execute('SELL', 4, context(100, 10_000), { type: 'IOC', price: 99 });
+    expect(ioc).toMatchObject({ success: true, status: 'PARTIALLY_FILLED', qty: 1, price: 99 });
+  });
+
+  it('fills a marketable limit from the book and rests the remainder', async () => {
+    const { executor } = paper({ books: { [SYMBOL]: book } });
+
+    const result = await executor.execute('BUY', 2, context(100, 10_000), { type: 'LIMIT', price: 101 });
+    expect(result).toMatchObject({ qty: 1, price: 101, status: 'PARTIALLY_FILLED', liquidity: 'taker' });
+
+    const [resting] = await executor.getOpenOrders(SYMBOL);
+    expect(resting).toMatchObject({ orderId: result.orderId, qty: 2, filledQty: 1, status: 'PARTIALLY_FILLED' });
+  });
+
+  it('falls back to the impact model while the book is not synced', async () => {
+    const unsynced = { ...book, isSynced: () => false };
+    const { executor } = paper({ books: { [SYMBOL]: unsynced }, slippage: 0.001 });
+
+    const result = await executor.execute('BUY', 5, context(100, 10_000));
+    expect(result).toMatchObject({ qty: 5, status: 'FILLED' });
+    expect(result.price).toBeCloseTo(100.1);
+  });
+});
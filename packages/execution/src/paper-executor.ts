@@ -1,283 +1,568 @@
-import type { Executor, ExecutionContext, ExecutionResult, ActionType, Position } from './types.js';
+import { EventEmitter } from 'events';
+import { systemClock, type Clock } from '@aadenman/clock';
+import { impactPrice, walkBook, type FillEstimate, type MarketImpact, type OrderBookView } from './fill-model.js';
+import { fundingPayment, nextFundingTime, type FundingRateSource } from './funding.js';
+import {
+  summarizeMargin,
+  unrealizedPnl,
+  withLiquidationPrices,
+  type MarginRules,
+  type MarginSummary,
+  type MarkedPosition,
+} from './margin.js';
+import { applyFill, flatPosition } from './position.js';
+import type {
+  Executor,
+  ExecutionContext,
+  ExecutionListener,
+  ExecutionResult,
+  ActionType,
+  OpenOrder,
+  OrderAmendment,
+  OrderOptions,
+  Position,
+  Side,
+} from './types.js';
 
 export interface PaperExecutorConfig {
-  slippage?: number; // 0.001 = 0.1%
+  slippage?: number; // 0.001 = 0.1%, flat part of the impact model used without a book
+  impact?: MarketImpact; // size-dependent part of the impact model
+  // Books to walk for taker fills, live (LocalOrderBook) or recorded (bookFromSnapshot)
+  books?: Record<string, OrderBookView> | ((symbol: string) => OrderBookView | undefined);
   takerFee?: number; // 0.0005 = 0.05%
+  makerFee?: number; // 0.0002 = 0.02%
+  leverage?: number; // account leverage, capped per symbol by its margin rules
+  maintenanceMarginRate?: number; // used for symbols without margin rules
+  liquidationFee?: number; // 0.01 = 1% of the liquidated notional
+  marginRules?: Record<string, MarginRules> | ((symbol: string) => MarginRules | undefined);
+  funding?: PaperFundingConfig;
+  clock?: Clock;
 }
 
-export class PaperExecutor implements Executor {
+export interface PaperFundingConfig {
+  rates: FundingRateSource;
+  periodHours?: number | Record<string, number>; // 8 default, per symbol from SymbolInfo.fundingPeriodHours
+}
+
+type ResultFields = Omit<ExecutionResult, 'cash' | 'position' | 'positions' | 'equity' | 'freeCollateral'>;
+
+// Simulated perp fills against one cross-margined account: a collateral pool
+// shared by positions in any number of symbols. LIMIT and POST_ONLY orders rest
+// until updatePrice() crosses them and fill at their limit price as maker; those
+// fills, funding settlements and liquidations are reported through onUpdate().
+export class PaperExecutor extends EventEmitter implements Executor {
   private slippage: number;
+  private impact?: MarketImpact;
+  private getBook: (symbol: string) => OrderBookView | undefined;
   private takerFee: number;
+  private makerFee: number;
+  private leverage: number;
+  private maintenanceMarginRate: number;
+  private liquidationFee: number;
+  private getMarginRules: (symbol: string) => MarginRules | undefined;
+  private funding?: PaperFundingConfig;
+  private clock: Clock;
+
+  private cash = 0;
+  private positions = new Map<string, Position>();
+  private prices = new Map<string, number>();
+  private orders = new Map<string, OpenOrder>();
+  private nextOrderId = 1;
+
+  private nextFunding = new Map<string, number>();
+  private fundingPnl = new Map<string, number>();
+  private pendingFunding = new Map<string, Promise<void>>();
 
   constructor(config: PaperExecutorConfig = {}) {
+    super();
     this.slippage = config.slippage ?? 0.001; // 0.1% default
+    this.impact = config.impact;
     this.takerFee = config.takerFee ?? 0.0005; // 0.05% default
+    this.makerFee = config.makerFee ?? 0.0002; // 0.02% default
+    this.leverage = config.leverage ?? 10;
+    if (!(this.leverage > 0)) {
+      throw new Error(`Leverage must be positive, got ${this.leverage}`);
+    }
+    this.maintenanceMarginRate = config.maintenanceMarginRate ?? 0.025;
+    this.liquidationFee = config.liquidationFee ?? 0.01;
+    this.funding = config.funding;
+    this.clock = config.clock ?? systemClock;
+
+    const books = config.books ?? {};
+    this.getBook = typeof books === 'function' ? books : (symbol) => books[symbol];
+
+    const rules = config.marginRules ?? {};
+    this.getMarginRules = typeof rules === 'function' ? rules : (symbol) => rules[symbol];
   }
 
   async execute(
     action: ActionType,
     qty: number,
-    context: ExecutionContext
+    context: ExecutionContext,
+    options: OrderOptions = {}
   ): Promise<ExecutionResult> {
+    // The caller's view is authoritative; resting orders fill against it from here on
+    this.syncAccount(context);
+    this.updatePrice(context.symbol, context.currentPrice);
+    await this.pendingFunding.get(context.symbol);
+
+    const { symbol, currentPrice } = context;
+
     if (action === 'HOLD') {
-      return {
-        success: true,
-        action: 'HOLD',
-        qty: 0,
-        price: context.currentPrice,
-        cash: context.cash,
-        position: context.position,
-        equity: context.equity,
-      };
+      return this.result(symbol, { success: true, action: 'HOLD', qty: 0, price: currentPrice });
     }
 
-    const executionPrice = this.applySlippage(context.currentPrice, action);
+    const type = options.type ?? 'MARKET';
 
     try {
-      return action === 'BUY'
-        ? this.buy(qty, executionPrice, context)
-        : this.sell(qty, executionPrice, context);
+      const limitPrice = options.price;
+      if (type !== 'MARKET' && (limitPrice === undefined || !(limitPrice > 0))) {
+        throw new Error(`${type} order requires a positive price`);
+      }
+      if (!(qty > 0)) {
+        throw new Error('Order quantity must be positive');
+      }
+
+      // Taker-only orders: whatever the book can take now, the rest is cancelled
+      if (type === 'MARKET' || type === 'IOC' || type === 'FOK') {
+        const estimate = this.estimateTakerFill(symbol, action, qty, currentPrice, limitPrice);
+        const complete = estimate.qty >= qty - 1e-12;
+
+        if (estimate.qty <= 0 || (type === 'FOK' && !complete)) {
+          return this.result(symbol, {
+            success: false,
+            action,
+            qty: 0,
+            price: currentPrice,
+            status: 'CANCELLED',
+            error: type === 'FOK'
+              ? `FOK ${action} ${qty} could only fill ${estimate.qty}`
+              : `No liquidity for ${type} ${action}${limitPrice !== undefined ? ` within ${limitPrice}` : ''}`,
+          });
+        }
+
+        const result = this.trade(symbol, action, estimate.qty, estimate.price, this.takerFee);
+        return { ...result, status: complete ? 'FILLED' : 'PARTIALLY_FILLED', liquidity: 'taker' };
+      }
+
+      const crosses = action === 'BUY' ? currentPrice <= limitPrice! : currentPrice >= limitPrice!;
+
+      if (crosses && type === 'POST_ONLY') {
+        throw new Error(`Post-only ${action} at ${limitPrice} would cross the market at ${currentPrice}`);
+      }
+
+      const order = this.createOrder(symbol, action, type, limitPrice!, qty, options.clientOrderId);
+
+      // Marketable limit: take what the book offers up to the limit price, rest the remainder
+      if (crosses) {
+        const estimate = this.estimateTakerFill(symbol, action, qty, currentPrice, limitPrice);
+        if (estimate.qty > 0) {
+          return this.fillOrder(order, estimate.qty, estimate.price, this.takerFee, 'taker');
+        }
+      }
+
+      return this.result(symbol, {
+        success: true,
+        action,
+        qty: 0,
+        price: limitPrice!,
+        orderId: order.orderId,
+        status: 'NEW',
+      });
     } catch (error) {
-      return {
+      return this.result(symbol, {
         success: false,
         action,
         qty: 0,
-        price: context.currentPrice,
-        cash: context.cash,
-        position: context.position,
-        equity: context.equity,
+        price: currentPrice,
+        status: 'REJECTED',
         error: error instanceof Error ? error.message : 'Unknown error',
-      };
+      });
     }
   }
 
-  private buy(qty: number, price: number, context: ExecutionContext): ExecutionResult {
-    // HOLD or LONG -> Adding to long
-    if (context.position.side === 'NONE' || context.position.side === 'LONG') {
-      const cost = qty * price;
-      const fee = cost * this.takerFee;
-      const totalCost = cost + fee;
+  // Feed every price update here; resting orders crossed by it fill at their limit price
+  updatePrice(symbol: string, price: number): void {
+    if (!(price > 0)) return;
 
-      if (totalCost > context.cash) {
-        throw new Error(`Insufficient cash: need ${totalCost.toFixed(2)}, have ${context.cash.toFixed(2)}`);
-      }
-
-      const totalQty = context.position.qty + qty;
-      const avgPrice = context.position.side === 'NONE'
-        ? price
-        : (context.position.avgPrice * context.position.qty + price * qty) / totalQty;
+    // Settlements since the last update are charged at the mark they happened under
+    this.accrueFunding(symbol, this.prices.get(symbol) ?? price);
+    this.prices.set(symbol, price);
 
-      const newPosition: Position = {
-        symbol: context.symbol,
-        qty: totalQty,
-        avgPrice,
-        side: 'LONG',
-      };
+    for (const order of Array.from(this.orders.values())) {
+      if (order.symbol !== symbol) continue;
 
-      const newCash = context.cash - totalCost;
-      const newEquity = newCash + this.calculatePositionValue(newPosition, context.currentPrice);
+      const crossed = order.side === 'BUY' ? price <= order.price : price >= order.price;
+      if (!crossed) continue;
 
-      return {
-        success: true,
-        action: 'BUY',
-        qty,
-        price,
-        cash: newCash,
-        position: newPosition,
-        equity: newEquity,
-        pnl: 0,
-      };
+      const result = this.fillOrder(order, order.qty - order.filledQty, order.price, this.makerFee, 'maker');
+      this.emit('update', result);
     }
 
-    // SHORT -> Closing or flipping
-    const shortQty = Math.abs(context.position.qty);
+    this.refreshLiquidationPrices();
+    this.checkLiquidation();
+  }
 
-    // Fully close short
-    if (qty >= shortQty) {
-      // Calculate cost to close SHORT position
-      const closeCost = shortQty * price;
-      const closeFee = closeCost * this.takerFee;
-      const totalCloseCost = closeCost + closeFee;
+  getPositions(): Position[] {
+    return Array.from(this.positions.values());
+  }
 
-      const pnl = (context.position.avgPrice - price) * shortQty - closeFee;
-      const remainingQty = qty - shortQty;
+  getMargin(): MarginSummary {
+    return summarizeMargin(this.cash, this.markedPositions(), this.leverage);
+  }
 
-      let newCash = context.cash + pnl;
-      let newPosition: Position;
+  // Cumulative funding received (positive) or paid (negative), for one symbol or the account
+  getFundingPnl(symbol?: string): number {
+    if (symbol) return this.fundingPnl.get(symbol) ?? 0;
+    return Array.from(this.fundingPnl.values()).reduce((sum, v) => sum + v, 0);
+  }
 
-      // If there's remaining qty, open LONG position
-      if (remainingQty > 0) {
-        const longCost = remainingQty * price;
-        const longFee = longCost * this.takerFee;
-        const totalLongCost = longCost + longFee;
+  async getOpenOrders(symbol?: string): Promise<OpenOrder[]> {
+    return Array.from(this.orders.values())
+      .filter((o) => !symbol || o.symbol === symbol)
+      .map((o) => ({ ...o }));
+  }
 
-        if (totalLongCost > newCash) {
-          throw new Error(`Insufficient cash for LONG: need ${totalLongCost.toFixed(2)}, have ${newCash.toFixed(2)}`);
-        }
+  async cancelOrder(orderId: string): Promise<boolean> {
+    const order = this.orders.get(orderId);
+    if (!order) return false;
 
-        newCash -= totalLongCost;
-        newPosition = { symbol: context.symbol, qty: remainingQty, avgPrice: price, side: 'LONG' };
-      } else {
-        newPosition = { symbol: context.symbol, qty: 0, avgPrice: 0, side: 'NONE' };
-      }
+    this.orders.delete(orderId);
+    order.status = 'CANCELLED';
+    order.updatedAt = this.clock.now();
+    return true;
+  }
 
-      const newEquity = newCash + this.calculatePositionValue(newPosition, context.currentPrice);
+  // Amending re-prices the order in place; a LIMIT moved through the market fills as taker
+  async amendOrder(orderId: string, amendment: OrderAmendment): Promise<ExecutionResult> {
+    const order = this.orders.get(orderId);
+    const currentPrice = order && this.prices.get(order.symbol);
 
-      return {
-        success: true,
-        action: 'BUY',
-        qty,
-        price,
-        cash: newCash,
-        position: newPosition,
-        equity: newEquity,
-        pnl,
-      };
+    if (!order || currentPrice === undefined) {
+      throw new Error(`Order ${orderId} not found`);
     }
 
-    // Partially close short
-    const cost = qty * price;
-    const fee = cost * this.takerFee;
-    const pnl = (context.position.avgPrice - price) * qty - fee;
+    const price = amendment.price ?? order.price;
+    const qty = amendment.qty ?? order.qty;
 
-    const newPosition: Position = {
-      symbol: context.symbol,
-      qty: context.position.qty + qty,
-      avgPrice: context.position.avgPrice,
-      side: 'SHORT',
-    };
+    if (!(price > 0) || !(qty > order.filledQty)) {
+      return this.rejected(order, 'Amended price must be positive and quantity above the filled quantity');
+    }
+
+    const crosses = order.side === 'BUY' ? currentPrice <= price : currentPrice >= price;
+    if (crosses && order.type === 'POST_ONLY') {
+      return this.rejected(order, `Post-only ${order.side} at ${price} would cross the market at ${currentPrice}`);
+    }
 
-    const newCash = context.cash + pnl;
-    const newEquity = newCash + this.calculatePositionValue(newPosition, context.currentPrice);
+    order.price = price;
+    order.qty = qty;
+    order.updatedAt = this.clock.now();
 
-    return {
+    if (crosses) {
+      const estimate = this.estimateTakerFill(order.symbol, order.side, qty - order.filledQty, currentPrice, price);
+      if (estimate.qty > 0) {
+        return this.fillOrder(order, estimate.qty, estimate.price, this.takerFee, 'taker');
+      }
+    }
+
+    return this.result(order.symbol, {
       success: true,
-      action: 'BUY',
-      qty,
+      action: order.side,
+      qty: 0,
       price,
-      cash: newCash,
-      position: newPosition,
-      equity: newEquity,
-      pnl,
-    };
+      orderId,
+      status: order.status,
+    });
   }
 
-  private sell(qty: number, price: number, context: ExecutionContext): ExecutionResult {
-    // HOLD or SHORT -> Adding to short
-    if (context.position.side === 'NONE' || context.position.side === 'SHORT') {
-      const proceeds = qty * price;
-      const fee = proceeds * this.takerFee;
-      const netProceeds = proceeds - fee;
-
-      const totalQty = Math.abs(context.position.qty) + qty;
-      const avgPrice = context.position.side === 'NONE'
-        ? price
-        : (context.position.avgPrice * Math.abs(context.position.qty) + price * qty) / totalQty;
-
-      const newPosition: Position = {
-        symbol: context.symbol,
-        qty: -totalQty,
-        avgPrice,
-        side: 'SHORT',
-      };
-
-      const newCash = context.cash + netProceeds;
-      const newEquity = newCash + this.calculatePositionValue(newPosition, context.currentPrice);
-
-      return {
-        success: true,
-        action: 'SELL',
-        qty,
-        price,
-        cash: newCash,
-        position: newPosition,
-        equity: newEquity,
-        pnl: 0,
-      };
+  onUpdate(listener: ExecutionListener): void {
+    this.on('update', listener);
+  }
+
+  offUpdate(listener: ExecutionListener): void {
+    this.off('update', listener);
+  }
+
+  // Takes the caller's positions over ours, but keeps symbols the caller does not
+  // list: fills or funding it has not seen yet must not be wiped
+  private syncAccount(context: ExecutionContext): void {
+    this.cash = context.cash;
+    for (const position of context.positions ?? []) {
+      this.setPosition(position);
     }
+    this.setPosition(context.position);
+  }
 
-    // LONG -> Closing or flipping
-    const longQty = context.position.qty;
+  private setPosition(position: Position): void {
+    if (position.qty === 0) {
+      this.positions.delete(position.symbol);
+    } else {
+      this.positions.set(position.symbol, position);
+    }
+  }
 
-    // Fully close long
-    if (qty >= longQty) {
-      // Calculate proceeds from closing LONG position
-      const closeProceeds = longQty * price;
-      const closeFee = closeProceeds * this.takerFee;
-      const netCloseProceeds = closeProceeds - closeFee;
+  private position(symbol: string): Position {
+    return this.positions.get(symbol) ?? flatPosition(symbol);
+  }
 
-      const pnl = (price - context.position.avgPrice) * longQty - closeFee;
-      const remainingQty = qty - longQty;
+  private markedPositions(): MarkedPosition[] {
+    return this.getPositions().map((position) => ({
+      position,
+      markPrice: this.prices.get(position.symbol) ?? position.avgPrice,
+      rules: this.rulesFor(position.symbol),
+    }));
+  }
 
-      let newCash = context.cash + netCloseProceeds;
-      let newPosition: Position;
+  private refreshLiquidationPrices(): void {
+    for (const position of withLiquidationPrices(this.cash, this.markedPositions())) {
+      this.positions.set(position.symbol, position);
+    }
+  }
 
-      // If there's remaining qty, open SHORT position
-      if (remainingQty > 0) {
-        const shortProceeds = remainingQty * price;
-        const shortFee = shortProceeds * this.takerFee;
-        const netShortProceeds = shortProceeds - shortFee;
+  // Completes a result with the account state after it
+  private result(symbol: string, fields: ResultFields): ExecutionResult {
+    const margin = this.getMargin();
+    return {
+      ...fields,
+      cash: this.cash,
+      position: this.position(symbol),
+      positions: this.getPositions(),
+      equity: margin.equity,
+      freeCollateral: margin.freeCollateral,
+    };
+  }
 
-        newCash += netShortProceeds;
-        newPosition = { symbol: context.symbol, qty: -remainingQty, avgPrice: price, side: 'SHORT' };
-      } else {
-        newPosition = { symbol: context.symbol, qty: 0, avgPrice: 0, side: 'NONE' };
-      }
+  private createOrder(
+    symbol: string,
+    side: Side,
+    type: OpenOrder['type'],
+    price: number,
+    qty: number,
+    clientOrderId?: string
+  ): OpenOrder {
+    if (clientOrderId && Array.from(this.orders.values()).some((o) => o.clientOrderId === clientOrderId)) {
+      throw new Error(`Duplicate client order id ${clientOrderId}`);
+    }
 
-      const newEquity = newCash + this.calculatePositionValue(newPosition, context.currentPrice);
+    const now = this.clock.now();
+    const order: OpenOrder = {
+      orderId: `paper-${this.nextOrderId++}`,
+      clientOrderId,
+      symbol,
+      side,
+      type,
+      price,
+      qty,
+      filledQty: 0,
+      status: 'NEW',
+      createdAt: now,
+      updatedAt: now,
+    };
 
-      return {
-        success: true,
-        action: 'SELL',
-        qty,
-        price,
-        cash: newCash,
-        position: newPosition,
-        equity: newEquity,
-        pnl,
-      };
+    this.orders.set(order.orderId, order);
+    return order;
+  }
+
+  // Fills part or all of a tracked order; it stays on the book while quantity remains
+  private fillOrder(
+    order: OpenOrder,
+    qty: number,
+    price: number,
+    feeRate: number,
+    liquidity: 'maker' | 'taker'
+  ): ExecutionResult {
+    order.updatedAt = this.clock.now();
+
+    try {
+      const result = this.trade(order.symbol, order.side, qty, price, feeRate);
+      order.filledQty += qty;
+      order.status = order.filledQty >= order.qty - 1e-12 ? 'FILLED' : 'PARTIALLY_FILLED';
+      if (order.status === 'FILLED') {
+        this.orders.delete(order.orderId);
+      }
+      return { ...result, orderId: order.orderId, status: order.status, liquidity };
+    } catch (error) {
+      return this.rejected(order, error instanceof Error ? error.message : 'Unknown error');
     }
+  }
 
-    // Partially close long
-    const proceeds = qty * price;
-    const fee = proceeds * this.takerFee;
-    const netProceeds = proceeds - fee;
-    const pnl = (price - context.position.avgPrice) * qty - fee;
-
-    const newPosition: Position = {
-      symbol: context.symbol,
-      qty: context.position.qty - qty,
-      avgPrice: context.position.avgPrice,
-      side: 'LONG',
+  private rejected(order: OpenOrder, error: string): ExecutionResult {
+    this.orders.delete(order.orderId);
+    order.status = 'REJECTED';
+    order.updatedAt = this.clock.now();
+
+    return this.result(order.symbol, {
+      success: false,
+      action: order.side,
+      qty: 0,
+      price: order.price,
+      orderId: order.orderId,
+      status: 'REJECTED',
+      error,
+    });
+  }
+
+  private rulesFor(symbol: string): MarginRules {
+    return this.getMarginRules(symbol) ?? {
+      baseImr: 0,
+      baseMmr: this.maintenanceMarginRate,
+      maxLeverage: 0,
     };
+  }
 
-    const newCash = context.cash + netProceeds;
-    const newEquity = newCash + this.calculatePositionValue(newPosition, context.currentPrice);
+  // Perp accounting: cash is settled collateral and only moves by realized PnL
+  // and fees; opening or adding needs free collateral for the initial margin
+  private trade(symbol: string, side: Side, qty: number, price: number, feeRate: number): ExecutionResult {
+    const current = this.position(symbol);
+    const fee = qty * price * feeRate;
+    const { position, realizedPnl, closedQty } = applyFill(current, side, qty, price);
+
+    const previous = { cash: this.cash, position: current };
+    this.cash += realizedPnl - fee;
+    this.setPosition(position);
+
+    const margin = this.getMargin();
+    const newQty = position.qty;
+    const increasing = Math.abs(newQty) > Math.abs(current.qty) || Math.sign(newQty) === -Math.sign(current.qty);
+    if (increasing && margin.freeCollateral < 0) {
+      this.cash = previous.cash;
+      this.setPosition(previous.position);
+      throw new Error(
+        `Insufficient margin: need ${margin.initialMargin.toFixed(2)}, ` +
+        `have ${margin.equity.toFixed(2)} at ${this.leverage}x`
+      );
+    }
 
-    return {
+    this.refreshLiquidationPrices();
+    return this.result(symbol, {
       success: true,
-      action: 'SELL',
+      action: side,
       qty,
       price,
-      cash: newCash,
-      position: newPosition,
-      equity: newEquity,
-      pnl,
-    };
+      // Realized PnL net of the fee on the closing part, as on the exchange
+      pnl: closedQty > 0 ? realizedPnl - (fee * closedQty) / qty : 0,
+      fee,
+    });
+  }
+
+  private fundingPeriodHours(symbol: string): number {
+    const period = this.funding?.periodHours;
+    return (typeof period === 'number' ? period : period?.[symbol]) ?? 8;
   }
 
-  private applySlippage(price: number, action: ActionType): number {
-    if (action === 'BUY') return price * (1 + this.slippage);
-    if (action === 'SELL') return price * (1 - this.slippage);
-    return price;
+  // Queues settlement of every funding time passed since the last update. The
+  // position is captured now, as it is the one held through those settlements.
+  private accrueFunding(symbol: string, markPrice: number): void {
+    if (!this.funding) return;
+
+    const now = this.clock.now();
+    const periodHours = this.fundingPeriodHours(symbol);
+    let due = this.nextFunding.get(symbol) ?? nextFundingTime(now, periodHours);
+
+    const times: number[] = [];
+    while (due <= now) {
+      times.push(due);
+      due = nextFundingTime(due, periodHours);
+    }
+    this.nextFunding.set(symbol, due);
+
+    const qty = this.positions.get(symbol)?.qty ?? 0;
+    if (times.length === 0 || qty === 0) return;
+
+    const previous = this.pendingFunding.get(symbol) ?? Promise.resolve();
+    const settled = previous
+      .then(() => this.settleFunding(symbol, qty, markPrice, times))
+      .catch((error) => console.error(`[Paper] Funding settlement failed for ${symbol}:`, error));
+    this.pendingFunding.set(symbol, settled);
+  }
+
+  private async settleFunding(symbol: string, qty: number, markPrice: number, times: number[]): Promise<void> {
+    for (const time of times) {
+      const rate = await this.funding!.rates.getRate(symbol, time);
+      if (rate === undefined) {
+        console.error(`[Paper] No funding rate for ${symbol} at ${new Date(time).toISOString()}`);
+        continue;
+      }
+
+      const payment = fundingPayment(qty, markPrice, rate);
+      this.cash += payment;
+      this.fundingPnl.set(symbol, this.getFundingPnl(symbol) + payment);
+      this.refreshLiquidationPrices();
+
+      this.emit('update', this.result(symbol, {
+        success: true,
+        action: 'HOLD',
+        qty: 0,
+        price: markPrice,
+        funding: payment,
+        fundingRate: rate,
+      }));
+
+      this.checkLiquidation();
+    }
   }
 
-  private calculatePositionValue(position: Position, currentPrice: number): number {
-    if (position.side === 'NONE') return 0;
+  // Closes every position at its mark once account equity has fallen to the
+  // total maintenance margin, as cross margin does
+  private checkLiquidation(): void {
+    const margin = this.getMargin();
+    if (this.positions.size === 0 || margin.equity > margin.maintenanceMargin) return;
+
+    for (const order of this.orders.values()) {
+      order.status = 'CANCELLED';
+      order.updatedAt = this.clock.now();
+    }
+    this.orders.clear();
+
+    const closed = this.markedPositions().map(({ position, markPrice }) => {
+      const qty = Math.abs(position.qty);
+      const fee = qty * markPrice * this.liquidationFee;
+      return { position, markPrice, qty, fee, pnl: unrealizedPnl(position, markPrice) - fee };
+    });
+
+    // Losses beyond the posted collateral are absorbed by the insurance fund
+    this.cash = Math.max(0, this.cash + closed.reduce((sum, c) => sum + c.pnl, 0));
+    this.positions.clear();
+
+    for (const { position, markPrice, qty, fee, pnl } of closed) {
+      this.emit('update', this.result(position.symbol, {
+        success: true,
+        action: position.qty > 0 ? 'SELL' : 'BUY',
+        qty,
+        price: markPrice,
+        pnl,
+        fee,
+        status: 'FILLED',
+        liquidation: true,
+      }));
+    }
+  }
+
+  // Walks the symbol's book when one is available, otherwise prices the whole
+  // quantity with the impact model; nothing fills beyond the limit price
+  private estimateTakerFill(
+    symbol: string,
+    side: Side,
+    qty: number,
+    currentPrice: number,
+    limitPrice?: number
+  ): FillEstimate {
+    const book = this.getBook(symbol);
+    if (book && book.isSynced?.() !== false) {
+      const levels = side === 'BUY' ? book.getAsks() : book.getBids();
+      if (levels.length > 0) {
+        return walkBook(levels, side, qty, limitPrice);
+      }
+    }
+
+    if (limitPrice !== undefined && (side === 'BUY' ? currentPrice > limitPrice : currentPrice < limitPrice)) {
+      return { qty: 0, price: 0, source: 'impact' };
+    }
 
-    const qty = Math.abs(position.qty);
-    return position.side === 'LONG'
-      ? (currentPrice - position.avgPrice) * qty
-      : (position.avgPrice - currentPrice) * qty;
+    const price = impactPrice(side, qty, currentPrice, this.slippage, this.impact);
+    const capped = limitPrice === undefined
+      ? price
+      : side === 'BUY' ? Math.min(price, limitPrice) : Math.max(price, limitPrice);
+    return { qty, price: capped, source: 'impact' };
   }
 }
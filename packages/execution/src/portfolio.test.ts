@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { Portfolio } from './portfolio.js';
+import type { ExecutionResult, Position } from './types.js';
+
+const long = (symbol: string, qty: number, avgPrice: number): Position => ({ symbol, qty, avgPrice, side: 'LONG' });
+
+function result(fields: Partial<ExecutionResult> & Pick<ExecutionResult, 'cash' | 'position'>): ExecutionResult {
+  return { success: true, action: 'BUY', qty: 0, price: 0, equity: fields.cash, ...fields };
+}
+
+describe('Portfolio', () => {
+  it('applies a result once however many runners hand it over', () => {
+    const portfolio = new Portfolio(1000);
+    const funding = result({ action: 'HOLD', cash: 999, position: long('A', 1, 100), funding: -1 });
+
+    expect(portfolio.apply(funding)).toBe(true);
+    expect(portfolio.apply(funding)).toBe(false);
+    expect(portfolio.getCash()).toBe(999);
+    expect(portfolio.getFundingPnl()).toBe(-1);
+  });
+
+  it('keeps positions in other symbols when a result lists only its own', () => {
+    const portfolio = new Portfolio(1000, [long('A', 1, 100)]);
+
+    portfolio.apply(result({ cash: 990, position: long('B', 2, 50) }));
+    expect(portfolio.getPositions().map((p) => p.symbol).sort()).toEqual(['A', 'B']);
+  });
+
+  it('takes the whole book when a result lists every position', () => {
+    const portfolio = new Portfolio(1000, [long('A', 1, 100)]);
+
+    portfolio.apply(result({ cash: 990, position: long('B', 2, 50), positions: [long('B', 2, 50)] }));
+    expect(portfolio.getPositions().map((p) => p.symbol)).toEqual(['B']);
+  });
+
+  it('marks equity with the latest price of each symbol', () => {
+    const portfolio = new Portfolio(1000, [long('A', 1, 100), long('B', 2, 50)]);
+    portfolio.setMark('A', 110);
+
+    // B has no mark yet and counts at its entry price
+    expect(portfolio.getEquity()).toBe(1010);
+    expect(portfolio.contextFor('B', 40)).toMatchObject({ equity: 990, cash: 1000, position: long('B', 2, 50) });
+  });
+});
@@ -0,0 +1,95 @@
+import { unrealizedPnl } from './margin.js';
+import { flatPosition } from './position.js';
+import type { ExecutionContext, ExecutionResult, Position } from './types.js';
+
+// Account-level book: one collateral pool, positions keyed by symbol and the
+// latest mark for each. Several runners can share one to trade a single account.
+export class Portfolio {
+  private cash: number;
+  private positions = new Map<string, Position>();
+  private marks = new Map<string, number>();
+  private fundingPnl = 0;
+  // Runners sharing this portfolio all hear the same executor update
+  private applied = new WeakSet<ExecutionResult>();
+
+  // Pass positions to resume an account, e.g. from a ledger replay
+  constructor(initialCash: number, positions: Position[] = []) {
+    this.cash = initialCash;
+    for (const position of positions) {
+      if (position.qty !== 0) this.positions.set(position.symbol, position);
+    }
+  }
+
+  getCash(): number {
+    return this.cash;
+  }
+
+  getPosition(symbol: string): Position {
+    return this.positions.get(symbol) ?? flatPosition(symbol);
+  }
+
+  getPositions(): Position[] {
+    return Array.from(this.positions.values());
+  }
+
+  setMark(symbol: string, price: number): void {
+    if (price > 0) this.marks.set(symbol, price);
+  }
+
+  getFundingPnl(): number {
+    return this.fundingPnl;
+  }
+
+  getMark(symbol: string): number | undefined {
+    return this.marks.get(symbol);
+  }
+
+  // Positions without a mark yet count at their entry price
+  getUnrealizedPnl(): number {
+    return this.getPositions().reduce(
+      (sum, p) => sum + unrealizedPnl(p, this.marks.get(p.symbol) ?? p.avgPrice),
+      0
+    );
+  }
+
+  getEquity(): number {
+    return this.cash + this.getUnrealizedPnl();
+  }
+
+  // Context for an order in `symbol`, with the whole account attached
+  contextFor(symbol: string, currentPrice: number): ExecutionContext {
+    this.setMark(symbol, currentPrice);
+    return {
+      symbol,
+      currentPrice,
+      position: this.getPosition(symbol),
+      cash: this.cash,
+      equity: this.getEquity(),
+      positions: this.getPositions(),
+    };
+  }
+
+  // Takes the account state a result reports; equity is re-marked here rather than trusted.
+  // Returns false for a result already applied
+  apply(result: ExecutionResult): boolean {
+    if (this.applied.has(result)) return false;
+    this.applied.add(result);
+
+    this.cash = result.cash;
+    this.fundingPnl += result.funding ?? 0;
+
+    if (result.positions) {
+      this.positions.clear();
+      for (const position of result.positions) {
+        if (position.qty !== 0) this.positions.set(position.symbol, position);
+      }
+    }
+
+    if (result.position.qty === 0) {
+      this.positions.delete(result.position.symbol);
+    } else {
+      this.positions.set(result.position.symbol, result.position);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,44 @@
+import type { Position, Side } from './types.js';
+
+export interface FillOutcome {
+  position: Position;
+  realizedPnl: number; // gross, before fees
+  closedQty: number;
+}
+
+export function flatPosition(symbol: string): Position {
+  return { symbol, qty: 0, avgPrice: 0, side: 'NONE' };
+}
+
+// Applies a fill to a position: adding averages the entry, reducing realizes PnL
+// against it, and a flip through zero re-enters at the fill price
+export function applyFill(current: Position, side: Side, qty: number, price: number): FillOutcome {
+  const signedQty = side === 'BUY' ? qty : -qty;
+
+  const reducing = current.qty !== 0 && Math.sign(current.qty) !== Math.sign(signedQty);
+  const closedQty = reducing ? Math.min(qty, Math.abs(current.qty)) : 0;
+  const realizedPnl = (price - current.avgPrice) * closedQty * Math.sign(current.qty);
+
+  const newQty = current.qty + signedQty;
+  let avgPrice: number;
+  if (newQty === 0) {
+    avgPrice = 0;
+  } else if (!reducing) {
+    avgPrice = (current.avgPrice * Math.abs(current.qty) + price * qty) / Math.abs(newQty);
+  } else if (Math.sign(newQty) !== Math.sign(current.qty)) {
+    avgPrice = price; // flipped through zero
+  } else {
+    avgPrice = current.avgPrice;
+  }
+
+  return {
+    position: {
+      symbol: current.symbol,
+      qty: newQty,
+      avgPrice,
+      side: newQty > 0 ? 'LONG' : newQty < 0 ? 'SHORT' : 'NONE',
+    },
+    realizedPnl,
+    closedQty,
+  };
+}
@@ -6,14 +6,46 @@ export interface Position {
   qty: number;
   avgPrice: number;
   side: 'LONG' | 'SHORT' | 'NONE';
+  liquidationPrice?: number; // mark price at which the position is force-closed
 }
 
+// The order's symbol and its position; cash and equity are account-wide
 export interface ExecutionContext {
   symbol: string;
   currentPrice: number;
   position: Position;
   cash: number;
   equity: number;
+  positions?: Position[]; // every open position in the account, when the caller tracks more than one
+}
+
+// As on Orderly: IOC and FOK are limit-priced orders that never rest
+export type OrderType = 'MARKET' | 'LIMIT' | 'POST_ONLY' | 'IOC' | 'FOK';
+export type OrderStatus = 'NEW' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'REJECTED';
+
+export interface OrderOptions {
+  type?: OrderType; // default MARKET
+  price?: number; // required for everything but MARKET
+  clientOrderId?: string;
+}
+
+export interface OpenOrder {
+  orderId: string;
+  clientOrderId?: string;
+  symbol: string;
+  side: Side;
+  type: 'LIMIT' | 'POST_ONLY';
+  price: number;
+  qty: number;
+  filledQty: number;
+  status: OrderStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OrderAmendment {
+  price?: number;
+  qty?: number;
 }
 
 export interface ExecutionResult {
@@ -23,11 +55,45 @@ export interface ExecutionResult {
   price: number;
   cash: number;
   position: Position;
+  positions?: Position[]; // every open position after this result
   equity: number;
   pnl?: number;
+  fee?: number;
+  // A resting order reports status NEW and qty 0, its fill arrives later. PARTIALLY_FILLED
+  // means qty is below what was asked: a LIMIT rests the remainder, MARKET and IOC drop it
+  orderId?: string;
+  status?: OrderStatus;
+  liquidity?: 'maker' | 'taker';
+  freeCollateral?: number;
+  liquidation?: boolean; // forced close at mark price, pnl includes the liquidation fee
+  // Funding settlements are reported on their own and kept out of pnl
+  funding?: number; // received (positive) or paid (negative)
+  fundingRate?: number;
   error?: string;
+  adjustment?: OrderAdjustment;
 }
 
+export interface OrderAdjustment {
+  requestedQty: number;
+  qty: number;
+  reason: string;
+}
+
+export type ExecutionListener = (result: ExecutionResult) => void;
+
 export interface Executor {
-  execute(action: ActionType, qty: number, context: ExecutionContext): Promise<ExecutionResult>;
+  execute(
+    action: ActionType,
+    qty: number,
+    context: ExecutionContext,
+    options?: OrderOptions
+  ): Promise<ExecutionResult>;
+
+  // Resting order support; executors without it only take MARKET orders
+  getOpenOrders?(symbol?: string): Promise<OpenOrder[]>;
+  cancelOrder?(orderId: string): Promise<boolean>;
+  amendOrder?(orderId: string, amendment: OrderAmendment): Promise<ExecutionResult>;
+  // Fills that happen after execute() returned, e.g. a resting limit order crossing
+  onUpdate?(listener: ExecutionListener): void;
+  offUpdate?(listener: ExecutionListener): void;
 }
@@ -0,0 +1,118 @@
+import { checkOrder, quantizePrice, type SymbolRules } from './order-rules.js';
+import type {
+  Executor,
+  ExecutionContext,
+  ExecutionListener,
+  ExecutionResult,
+  ActionType,
+  OpenOrder,
+  OrderAmendment,
+  OrderOptions,
+} from './types.js';
+
+export interface ValidatingExecutorConfig {
+  executor: Executor;
+  rules: Record<string, SymbolRules> | ((symbol: string) => SymbolRules | undefined);
+}
+
+// Quantizes and validates orders against per-symbol exchange rules before
+// handing them to the wrapped executor
+export class ValidatingExecutor implements Executor {
+  private executor: Executor;
+  private getRules: (symbol: string) => SymbolRules | undefined;
+
+  constructor(config: ValidatingExecutorConfig) {
+    this.executor = config.executor;
+    const rules = config.rules;
+    this.getRules = typeof rules === 'function' ? rules : (symbol) => rules[symbol];
+  }
+
+  async execute(
+    action: ActionType,
+    qty: number,
+    context: ExecutionContext,
+    options?: OrderOptions
+  ): Promise<ExecutionResult> {
+    const rules = this.getRules(context.symbol);
+    if (action === 'HOLD' || !rules) {
+      return this.executor.execute(action, qty, context, options);
+    }
+
+    // Limit prices snap to the price tick and notional is checked at the limit
+    if (options?.price !== undefined) {
+      options = { ...options, price: quantizePrice(options.price, rules.quoteTick, action) };
+    }
+
+    // Closing all or part of the position, on its opposite side
+    const { position } = context;
+    const reducing =
+      ((action === 'BUY' && position.side === 'SHORT') || (action === 'SELL' && position.side === 'LONG')) &&
+      qty <= Math.abs(position.qty);
+
+    const check = checkOrder(qty, options?.price ?? context.currentPrice, rules, reducing);
+    if (!check.ok) {
+      return {
+        success: false,
+        action,
+        qty: 0,
+        price: context.currentPrice,
+        cash: context.cash,
+        position: context.position,
+        equity: context.equity,
+        error: `Order rejected: ${check.reason}`,
+      };
+    }
+
+    const result = await this.executor.execute(action, check.qty, context, options);
+    return check.adjustment ? { ...result, adjustment: check.adjustment } : result;
+  }
+
+  async getOpenOrders(symbol?: string): Promise<OpenOrder[]> {
+    return this.executor.getOpenOrders?.(symbol) ?? [];
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    return this.executor.cancelOrder?.(orderId) ?? false;
+  }
+
+  async amendOrder(orderId: string, amendment: OrderAmendment): Promise<ExecutionResult> {
+    if (!this.executor.amendOrder) {
+      throw new Error('Wrapped executor does not support amending orders');
+    }
+
+    const order = (await this.getOpenOrders()).find((o) => o.orderId === orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+
+    // Like execute, symbols without rules go through as they are
+    const rules = this.getRules(order.symbol);
+    if (!rules) {
+      return this.executor.amendOrder(orderId, amendment);
+    }
+
+    if (amendment.price !== undefined) {
+      amendment = { ...amendment, price: quantizePrice(amendment.price, rules.quoteTick, order.side) };
+    }
+
+    // The amended order is checked whole, at its new price and size; there is
+    // no account state to report here, so a rejection throws
+    const check = checkOrder(amendment.qty ?? order.qty, amendment.price ?? order.price, rules);
+    if (!check.ok) {
+      throw new Error(`Amendment rejected: ${check.reason}`);
+    }
+    if (amendment.qty !== undefined) {
+      amendment = { ...amendment, qty: check.qty };
+    }
+
+    return this.executor.amendOrder(orderId, amendment);
+  }
+
+  onUpdate(listener: ExecutionListener): void {
+    this.executor.onUpdate?.(listener);
+  }
+
+  offUpdate(listener: ExecutionListener): void {
+    this.executor.offUpdate?.(listener);
+  }
+}
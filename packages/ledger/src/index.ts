@@ -0,0 +1,5 @@
+export * from './types.js';
+export * from './replay.js';
+export * from './ledger.js';
+export * from './jsonl-backend.js';
+export * from './sqlite-backend.js';
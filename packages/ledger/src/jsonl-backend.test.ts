@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { JsonlLedgerBackend } from './jsonl-backend.js';
+import type { LedgerEntry } from './types.js';
+
+const deposit = (seq: number): LedgerEntry => ({ type: 'deposit', seq, timestamp: seq, amount: 1, balance: seq });
+
+describe('JsonlLedgerBackend', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'ledger-'));
+    path = join(dir, 'ledger.jsonl');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads back what it appended and resumes the seq on open', async () => {
+    const backend = await JsonlLedgerBackend.open(path);
+    await backend.append([deposit(1), deposit(2)]);
+    await backend.close();
+
+    const reopened = await JsonlLedgerBackend.open(path);
+    expect(await reopened.lastSeq()).toBe(2);
+    expect(await reopened.read({ fromSeq: 2 })).toEqual([deposit(2)]);
+    await expect(reopened.append([deposit(2)])).rejects.toThrow('out of order');
+    await reopened.close();
+  });
+
+  it('drops a line torn by a crash when opened', async () => {
+    await fs.writeFile(path, JSON.stringify(deposit(1)) + '\n{"type":"dep');
+
+    const backend = await JsonlLedgerBackend.open(path);
+    await backend.append([deposit(2)]);
+    expect((await backend.read()).map((e) => e.seq)).toEqual([1, 2]);
+    await backend.close();
+  });
+
+  it('cuts off what a failed append wrote before appending again', async () => {
+    const backend = await JsonlLedgerBackend.open(path);
+    await backend.append([deposit(1)]);
+
+    // Write a line and a half, then fail as a full disk would
+    const handle = await fs.open(path, 'r');
+    const proto = Object.getPrototypeOf(handle) as fs.FileHandle;
+    await handle.close();
+    const appendFile = proto.appendFile;
+    vi.spyOn(proto, 'appendFile').mockImplementationOnce(async function (this: fs.FileHandle, data) {
+      await appendFile.call(this, String(data).slice(0, -10));
+      throw new Error('ENOSPC: no space left on device');
+    });
+
+    await expect(backend.append([deposit(2), deposit(3)])).rejects.toThrow('ENOSPC');
+    await backend.append([deposit(4)]);
+    await backend.close();
+
+    const reopened = await JsonlLedgerBackend.open(path);
+    expect((await reopened.read()).map((e) => e.seq)).toEqual([1, 4]);
+    await reopened.close();
+  });
+});
@@ -0,0 +1,135 @@
+import { promises as fs } from 'fs';
+import type { LedgerBackend, LedgerEntry, LedgerQuery } from './types.js';
+
+// One JSON entry per line, fsynced on every append. An append that fails is
+// cut back off the file, so later lines never follow a partial one
+export class JsonlLedgerBackend implements LedgerBackend {
+  private file?: fs.FileHandle;
+  private writing: Promise<void> = Promise.resolve();
+  private torn = false;
+
+  private constructor(
+    readonly path: string,
+    private last: number,
+    private size: number // bytes of acknowledged entries
+  ) {}
+
+  // A line torn by a crash mid-write was never acknowledged, so it is cut off
+  // before anything is appended after it
+  static async open(path: string): Promise<JsonlLedgerBackend> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new JsonlLedgerBackend(path, 0, 0);
+      throw error;
+    }
+
+    if (contents.length > 0 && !contents.endsWith('\n')) {
+      const end = contents.lastIndexOf('\n') + 1;
+      console.error(`[Ledger] Dropping torn last line of ${path}: ${contents.slice(end)}`);
+      await fs.truncate(path, Buffer.byteLength(contents.slice(0, end)));
+      contents = contents.slice(0, end);
+    }
+
+    const entries = parseLines(path, contents);
+    return new JsonlLedgerBackend(path, entries.at(-1)?.seq ?? 0, Buffer.byteLength(contents));
+  }
+
+  append(entries: LedgerEntry[]): Promise<void> {
+    // Serialized so concurrent appends land in the order they were made
+    const write = this.writing.then(() => this.write(entries));
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  async read(query: LedgerQuery = {}): Promise<LedgerEntry[]> {
+    await this.writing;
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    return parseLines(this.path, contents).filter((entry) => matches(entry, query));
+  }
+
+  async lastSeq(): Promise<number> {
+    await this.writing;
+    return this.last;
+  }
+
+  async close(): Promise<void> {
+    await this.writing;
+    await this.file?.close();
+    this.file = undefined;
+  }
+
+  private async write(entries: LedgerEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    for (const entry of entries) {
+      if (entry.seq <= this.last) {
+        throw new Error(`Ledger entry ${entry.seq} is out of order, last written was ${this.last}`);
+      }
+    }
+
+    // A failed append may have left part of its lines behind; they were never
+    // acknowledged, and the next line must not start in the middle of them
+    if (this.torn) await this.cutUnacknowledged();
+
+    const data = entries.map((entry) => JSON.stringify(entry) + '\n').join('');
+    try {
+      this.file ??= await fs.open(this.path, 'a');
+      await this.file.appendFile(data);
+      await this.file.sync();
+    } catch (error) {
+      this.torn = true;
+      await this.cutUnacknowledged().catch(() => {});
+      throw error;
+    }
+
+    this.size += Buffer.byteLength(data);
+    this.last = entries[entries.length - 1].seq;
+  }
+
+  private async cutUnacknowledged(): Promise<void> {
+    try {
+      await fs.truncate(this.path, this.size);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    this.torn = false;
+  }
+}
+
+function parseLines(path: string, contents: string): LedgerEntry[] {
+  const entries: LedgerEntry[] = [];
+  const lines = contents.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue;
+    try {
+      entries.push(JSON.parse(lines[i]) as LedgerEntry);
+    } catch {
+      // Only the last line can be torn; anything earlier means the file was damaged
+      if (i === lines.length - 1) {
+        console.error(`[Ledger] Skipping torn last line of ${path}`);
+        continue;
+      }
+      throw new Error(`Corrupt ledger entry at ${path}:${i + 1}`);
+    }
+  }
+
+  return entries;
+}
+
+function matches(entry: LedgerEntry, query: LedgerQuery): boolean {
+  if (query.fromSeq !== undefined && entry.seq < query.fromSeq) return false;
+  if (query.types && !query.types.includes(entry.type)) return false;
+  if (query.symbol !== undefined && (!('symbol' in entry) || entry.symbol !== query.symbol)) return false;
+  return true;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { VirtualClock } from '@aadenman/clock';
+import type { ExecutionResult } from '@aadenman/execution';
+import { Ledger } from './ledger.js';
+import type { LedgerBackend, LedgerEntry } from './types.js';
+
+class MemoryBackend implements LedgerBackend {
+  entries: LedgerEntry[] = [];
+
+  async append(entries: LedgerEntry[]): Promise<void> {
+    this.entries.push(...entries);
+  }
+
+  async read(): Promise<LedgerEntry[]> {
+    return [...this.entries];
+  }
+
+  async lastSeq(): Promise<number> {
+    return this.entries.at(-1)?.seq ?? 0;
+  }
+
+  async close(): Promise<void> {}
+}
+
+function result(fields: Partial<ExecutionResult> = {}): ExecutionResult {
+  return {
+    success: true,
+    action: 'BUY',
+    qty: 1,
+    price: 100,
+    cash: 900,
+    equity: 1000,
+    position: { symbol: 'A', qty: 1, avgPrice: 100, side: 'LONG' },
+    ...fields,
+  };
+}
+
+describe('Ledger', () => {
+  it('numbers entries on from the backend and stamps them with the clock', async () => {
+    const backend = new MemoryBackend();
+    backend.entries.push({ type: 'deposit', seq: 1, timestamp: 0, amount: 1000, balance: 1000 });
+    const ledger = await Ledger.open(backend, new VirtualClock(5000));
+
+    const entries = await ledger.record(result({ orderId: '7', fee: 0.1 }));
+    expect(entries.map((e) => [e.type, e.seq, e.timestamp])).toEqual([
+      ['order', 2, 5000],
+      ['fill', 3, 5000],
+    ]);
+    expect(entries[1]).toMatchObject({ orderId: '7', qty: 1, price: 100, fee: 0.1, balance: 900 });
+  });
+
+  it('records a result once however many runners hand it over', async () => {
+    const backend = new MemoryBackend();
+    const ledger = await Ledger.open(backend, new VirtualClock());
+    const filled = result();
+
+    await ledger.record(filled);
+    expect(await ledger.record(filled)).toEqual([]);
+    expect(backend.entries).toHaveLength(2);
+  });
+
+  it('skips HOLDs and records a rejected order without a fill', async () => {
+    const backend = new MemoryBackend();
+    const ledger = await Ledger.open(backend, new VirtualClock());
+
+    expect(await ledger.record(result({ action: 'HOLD', qty: 0 }))).toEqual([]);
+    const [rejected, ...rest] = await ledger.record(result({ success: false, qty: 0, error: 'Insufficient margin' }));
+
+    expect(rest).toEqual([]);
+    expect(rejected).toMatchObject({ type: 'order', status: 'REJECTED', error: 'Insufficient margin' });
+  });
+
+  it('records funding and liquidations as their own entries', async () => {
+    const ledger = await Ledger.open(new MemoryBackend(), new VirtualClock());
+
+    const [funding] = await ledger.record(result({ action: 'HOLD', qty: 0, funding: -0.2, fundingRate: 0.001 }));
+    expect(funding).toMatchObject({ type: 'funding', amount: -0.2, rate: 0.001, positionQty: 1 });
+
+    const liquidation = await ledger.record(result({ action: 'SELL', liquidation: true, cash: 0 }));
+    expect(liquidation).toMatchObject([{ type: 'fill', liquidation: true, balance: 0 }]);
+  });
+});
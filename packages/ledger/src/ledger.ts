@@ -0,0 +1,110 @@
+import { systemClock, type Clock } from '@aadenman/clock';
+import type { ExecutionResult } from '@aadenman/execution';
+import { replay, type LedgerState } from './replay.js';
+import type { LedgerBackend, LedgerEntry, LedgerQuery } from './types.js';
+
+// An entry before the ledger numbers and timestamps it
+type Unsequenced<T> = T extends LedgerEntry ? Omit<T, 'seq' | 'timestamp'> : never;
+export type LedgerEntryInput = Unsequenced<LedgerEntry>;
+
+// Append-only record of deposits, orders, fills and funding: the source of
+// truth for audits and for rebuilding the account on restart
+export class Ledger {
+  // Runners sharing an executor are all handed its updates
+  private recorded = new WeakSet<ExecutionResult>();
+
+  private constructor(
+    private backend: LedgerBackend,
+    private seq: number,
+    private clock: Clock
+  ) {}
+
+  static async open(backend: LedgerBackend, clock: Clock = systemClock): Promise<Ledger> {
+    return new Ledger(backend, await backend.lastSeq(), clock);
+  }
+
+  // Numbered as soon as it is called, so entries keep call order even when
+  // the caller does not wait for each write
+  append(inputs: LedgerEntryInput[]): Promise<LedgerEntry[]> {
+    const timestamp = this.clock.now();
+    const entries = inputs.map((input) => ({ ...input, seq: ++this.seq, timestamp }) as LedgerEntry);
+    return this.backend.append(entries).then(() => entries);
+  }
+
+  deposit(amount: number, balance?: number): Promise<LedgerEntry[]> {
+    return this.append([{ type: 'deposit', amount, balance: balance ?? amount }]);
+  }
+
+  // HOLDs carry nothing and are not recorded, nor is a result recorded twice
+  record(result: ExecutionResult): Promise<LedgerEntry[]> {
+    if (this.recorded.has(result)) return Promise.resolve([]);
+    this.recorded.add(result);
+    return this.append(toEntries(result));
+  }
+
+  entries(query?: LedgerQuery): Promise<LedgerEntry[]> {
+    return this.backend.read(query);
+  }
+
+  async replay(): Promise<LedgerState> {
+    return replay(await this.backend.read());
+  }
+
+  close(): Promise<void> {
+    return this.backend.close();
+  }
+}
+
+function toEntries(result: ExecutionResult): LedgerEntryInput[] {
+  const symbol = result.position.symbol;
+  const balance = result.cash;
+
+  if (result.funding !== undefined) {
+    return [{
+      type: 'funding',
+      symbol,
+      amount: result.funding,
+      rate: result.fundingRate,
+      positionQty: result.position.qty,
+      balance,
+    }];
+  }
+
+  if (result.action === 'HOLD') return [];
+
+  const side = result.action;
+  const entries: LedgerEntryInput[] = [];
+
+  // Liquidations are not orders of ours; they only show up as fills
+  if (!result.liquidation) {
+    entries.push({
+      type: 'order',
+      symbol,
+      side,
+      orderId: result.orderId,
+      status: result.status ?? (result.success ? 'FILLED' : 'REJECTED'),
+      qty: result.qty,
+      price: result.price,
+      error: result.error,
+      balance,
+    });
+  }
+
+  if (result.success && result.qty > 0) {
+    entries.push({
+      type: 'fill',
+      symbol,
+      side,
+      orderId: result.orderId,
+      qty: result.qty,
+      price: result.price,
+      fee: result.fee ?? 0,
+      pnl: result.pnl ?? 0,
+      liquidity: result.liquidity,
+      liquidation: result.liquidation,
+      balance,
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { replay } from './replay.js';
+import type { FillEntry, LedgerEntry } from './types.js';
+
+function fill(seq: number, fields: Partial<FillEntry> & Pick<FillEntry, 'side' | 'qty' | 'price'>): FillEntry {
+  return { type: 'fill', seq, timestamp: seq, balance: 0, symbol: 'A', fee: 0, pnl: 0, ...fields };
+}
+
+describe('replay', () => {
+  it('rebuilds cash, positions, fees and funding from deposits, fills and funding', () => {
+    const state = replay([
+      { type: 'deposit', seq: 1, timestamp: 1, amount: 1000, balance: 1000 },
+      fill(2, { side: 'BUY', qty: 2, price: 100, fee: 1 }),
+      { type: 'order', seq: 3, timestamp: 3, symbol: 'A', side: 'SELL', status: 'FILLED', qty: 1, price: 110, balance: 0 },
+      fill(4, { side: 'SELL', qty: 1, price: 110, fee: 1 }),
+      { type: 'funding', seq: 5, timestamp: 5, symbol: 'A', amount: -0.5, positionQty: 1, balance: 0 },
+    ]);
+
+    expect(state).toEqual({
+      cash: 1007.5,
+      positions: [{ symbol: 'A', qty: 1, avgPrice: 100, side: 'LONG' }],
+      realizedPnl: 10,
+      fees: 2,
+      funding: -0.5,
+      lastSeq: 5,
+    });
+  });
+
+  it('drops positions that close and takes the reported balance after a liquidation', () => {
+    const state = replay([
+      { type: 'deposit', seq: 1, timestamp: 1, amount: 100, balance: 100 },
+      fill(2, { side: 'BUY', qty: 1, price: 1000 }),
+      fill(3, { side: 'SELL', qty: 1, price: 880, fee: 5, liquidation: true, balance: 0 }),
+    ]);
+
+    expect(state.cash).toBe(0);
+    expect(state.positions).toEqual([]);
+    expect(state.realizedPnl).toBe(-120);
+  });
+
+  it('throws on entries out of seq order', () => {
+    const entries: LedgerEntry[] = [
+      { type: 'deposit', seq: 2, timestamp: 1, amount: 1, balance: 1 },
+      { type: 'deposit', seq: 2, timestamp: 2, amount: 1, balance: 2 },
+    ];
+    expect(() => replay(entries)).toThrow('Ledger entry 2 is out of order after 2');
+  });
+});
@@ -0,0 +1,56 @@
+import { applyFill, flatPosition, type Position } from '@aadenman/execution';
+import type { LedgerEntry } from './types.js';
+
+export interface LedgerState {
+  cash: number;
+  positions: Position[]; // open positions only
+  realizedPnl: number; // from closing trades, before fees
+  fees: number;
+  funding: number;
+  lastSeq: number;
+}
+
+// Rebuilds the account from its entries in seq order, with the same position
+// math as PaperExecutor. Order entries carry no money and are skipped.
+// Only a paper ledger replays to its account: a live one misses exchange-side
+// settlements, so the exchange stays the source of truth and `balance` the audit
+export function replay(entries: Iterable<LedgerEntry>): LedgerState {
+  const positions = new Map<string, Position>();
+  const state: LedgerState = { cash: 0, positions: [], realizedPnl: 0, fees: 0, funding: 0, lastSeq: 0 };
+
+  for (const entry of entries) {
+    if (entry.seq <= state.lastSeq) {
+      throw new Error(`Ledger entry ${entry.seq} is out of order after ${state.lastSeq}`);
+    }
+    state.lastSeq = entry.seq;
+
+    switch (entry.type) {
+      case 'deposit':
+        state.cash += entry.amount;
+        break;
+
+      case 'fill': {
+        const current = positions.get(entry.symbol) ?? flatPosition(entry.symbol);
+        const { position, realizedPnl } = applyFill(current, entry.side, entry.qty, entry.price);
+
+        if (position.qty === 0) positions.delete(entry.symbol);
+        else positions.set(entry.symbol, position);
+
+        state.realizedPnl += realizedPnl;
+        state.fees += entry.fee;
+        // Liquidation losses past the collateral fall to the insurance fund, so
+        // the balance the executor reported is the only reliable figure
+        state.cash = entry.liquidation ? entry.balance : state.cash + realizedPnl - entry.fee;
+        break;
+      }
+
+      case 'funding':
+        state.cash += entry.amount;
+        state.funding += entry.amount;
+        break;
+    }
+  }
+
+  state.positions = Array.from(positions.values());
+  return state;
+}
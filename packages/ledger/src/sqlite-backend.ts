@@ -0,0 +1,107 @@
+import type { LedgerBackend, LedgerEntry, LedgerQuery } from './types.js';
+
+// better-sqlite3 is an optional peer dependency; only what this backend uses is typed
+interface Statement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+interface Database {
+  prepare(sql: string): Statement;
+  exec(sql: string): void;
+  pragma(pragma: string): unknown;
+  transaction<T extends unknown[]>(fn: (...args: T) => void): (...args: T) => void;
+  close(): void;
+}
+
+const DRIVER = 'better-sqlite3';
+
+// Whole entries are stored as JSON; the indexed columns only serve queries.
+// Triggers reject updates and deletes so the table stays append-only
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS ledger_entries (
+    seq INTEGER PRIMARY KEY,
+    timestamp INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    symbol TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS ledger_entries_symbol ON ledger_entries (symbol, seq);
+  CREATE TRIGGER IF NOT EXISTS ledger_entries_no_update BEFORE UPDATE ON ledger_entries
+    BEGIN SELECT RAISE(ABORT, 'ledger is append-only'); END;
+  CREATE TRIGGER IF NOT EXISTS ledger_entries_no_delete BEFORE DELETE ON ledger_entries
+    BEGIN SELECT RAISE(ABORT, 'ledger is append-only'); END;
+`;
+
+// Embedded SQLite database, one transaction per append
+export class SqliteLedgerBackend implements LedgerBackend {
+  private insert: Statement;
+  private insertAll: (entries: LedgerEntry[]) => void;
+
+  private constructor(private db: Database) {
+    this.insert = db.prepare(
+      'INSERT INTO ledger_entries (seq, timestamp, type, symbol, data) VALUES (?, ?, ?, ?, ?)'
+    );
+    this.insertAll = db.transaction((entries: LedgerEntry[]) => {
+      for (const entry of entries) {
+        const symbol = 'symbol' in entry ? entry.symbol : null;
+        this.insert.run(entry.seq, entry.timestamp, entry.type, symbol, JSON.stringify(entry));
+      }
+    });
+  }
+
+  static async open(path: string): Promise<SqliteLedgerBackend> {
+    let Driver: new (path: string) => Database;
+    try {
+      ({ default: Driver } = await import(DRIVER));
+    } catch {
+      throw new Error(`SqliteLedgerBackend requires the optional "${DRIVER}" package to be installed`);
+    }
+
+    const db = new Driver(path);
+    db.pragma('journal_mode = WAL');
+    db.pragma('synchronous = FULL');
+    db.exec(SCHEMA);
+    return new SqliteLedgerBackend(db);
+  }
+
+  async append(entries: LedgerEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    this.insertAll(entries);
+  }
+
+  async read(query: LedgerQuery = {}): Promise<LedgerEntry[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.fromSeq !== undefined) {
+      conditions.push('seq >= ?');
+      params.push(query.fromSeq);
+    }
+    if (query.symbol !== undefined) {
+      conditions.push('symbol = ?');
+      params.push(query.symbol);
+    }
+    if (query.types) {
+      if (query.types.length === 0) return [];
+      conditions.push(`type IN (${query.types.map(() => '?').join(', ')})`);
+      params.push(...query.types);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT data FROM ledger_entries${where} ORDER BY seq`)
+      .all(...params) as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data) as LedgerEntry);
+  }
+
+  async lastSeq(): Promise<number> {
+    const row = this.db.prepare('SELECT MAX(seq) AS seq FROM ledger_entries').get() as { seq: number | null };
+    return row.seq ?? 0;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
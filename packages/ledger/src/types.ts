@@ -0,0 +1,65 @@
+import type { OrderStatus, Side } from '@aadenman/execution';
+
+// Every entry records the account's cash as reported right after it, so a
+// replay can be checked against what the executor saw
+interface EntryBase {
+  seq: number; // strictly increasing from 1
+  timestamp: number;
+  balance: number;
+}
+
+export interface DepositEntry extends EntryBase {
+  type: 'deposit';
+  amount: number; // negative for a withdrawal
+}
+
+// An order's state as of one execution result; its fills are separate entries
+export interface OrderEntry extends EntryBase {
+  type: 'order';
+  symbol: string;
+  side: Side;
+  orderId?: string;
+  status: OrderStatus;
+  qty: number; // filled by this result
+  price: number; // fill price, or the limit price of a resting order
+  error?: string;
+}
+
+export interface FillEntry extends EntryBase {
+  type: 'fill';
+  symbol: string;
+  side: Side;
+  orderId?: string;
+  qty: number;
+  price: number;
+  fee: number;
+  pnl: number; // as reported by the executor, net of fees
+  liquidity?: 'maker' | 'taker';
+  liquidation?: boolean;
+}
+
+export interface FundingEntry extends EntryBase {
+  type: 'funding';
+  symbol: string;
+  amount: number; // received (positive) or paid (negative)
+  rate?: number;
+  positionQty: number;
+}
+
+export type LedgerEntry = DepositEntry | OrderEntry | FillEntry | FundingEntry;
+export type LedgerEntryType = LedgerEntry['type'];
+
+export interface LedgerQuery {
+  fromSeq?: number; // inclusive
+  symbol?: string;
+  types?: LedgerEntryType[];
+}
+
+// Storage for ledger entries. Backends only ever append; entries arrive in seq
+// order and must be durable once append() resolves
+export interface LedgerBackend {
+  append(entries: LedgerEntry[]): Promise<void>;
+  read(query?: LedgerQuery): Promise<LedgerEntry[]>;
+  lastSeq(): Promise<number>; // 0 when empty
+  close(): Promise<void>;
+}
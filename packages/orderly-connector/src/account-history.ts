@@ -0,0 +1,144 @@
+import type { Trade, FundingFee, PnlSettlement, PositionHistoryEntry, AssetTransfer } from './types.js';
+
+// Raw rows from Orderly's private history endpoints
+
+export interface RawTrade {
+  id: number;
+  symbol: string;
+  order_id: number;
+  side: 'BUY' | 'SELL';
+  executed_price: number;
+  executed_quantity: number;
+  fee: number;
+  fee_asset: string;
+  is_maker: number | boolean;
+  realized_pnl?: number;
+  executed_timestamp: number;
+}
+
+export interface RawFundingFee {
+  id: number;
+  symbol: string;
+  funding_rate: number;
+  mark_price: number;
+  funding_fee: number;
+  payment_type: 'Pay' | 'Receive';
+  status: string;
+  created_time: number;
+}
+
+export interface RawPnlSettlement {
+  id: number;
+  asset?: string;
+  token?: string;
+  amount: number;
+  status: string;
+  created_time: number;
+}
+
+export interface RawPositionHistoryEntry {
+  position_id: number;
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  position_status: string;
+  avg_open_price: number;
+  avg_close_price: number;
+  max_position_qty: number;
+  closed_position_qty: number;
+  realized_pnl: number;
+  trading_fee: number;
+  accumulated_funding_fee: number;
+  liquidator_fee: number;
+  insurance_fund_fee: number;
+  open_timestamp: number;
+  close_timestamp?: number;
+  last_update_time: number;
+}
+
+export interface RawAssetTransfer {
+  id: string;
+  tx_id: string;
+  side: 'DEPOSIT' | 'WITHDRAW';
+  token: string;
+  amount: number;
+  fee: number;
+  trans_status: string;
+  chain_id: string;
+  created_time: number;
+  updated_time: number;
+}
+
+export function parseTrade(raw: RawTrade): Trade {
+  return {
+    id: raw.id,
+    symbol: raw.symbol,
+    orderId: raw.order_id,
+    side: raw.side,
+    price: Number(raw.executed_price),
+    qty: Number(raw.executed_quantity),
+    fee: Number(raw.fee),
+    feeAsset: raw.fee_asset,
+    isMaker: Boolean(raw.is_maker),
+    realizedPnl: Number(raw.realized_pnl ?? 0),
+    timestamp: Number(raw.executed_timestamp),
+  };
+}
+
+export function parseFundingFee(raw: RawFundingFee): FundingFee {
+  return {
+    id: raw.id,
+    symbol: raw.symbol,
+    fundingRate: Number(raw.funding_rate),
+    markPrice: Number(raw.mark_price),
+    fundingFee: Number(raw.funding_fee),
+    paymentType: raw.payment_type,
+    status: raw.status,
+    timestamp: Number(raw.created_time),
+  };
+}
+
+export function parsePnlSettlement(raw: RawPnlSettlement): PnlSettlement {
+  return {
+    id: raw.id,
+    asset: raw.asset ?? raw.token ?? 'USDC',
+    amount: Number(raw.amount),
+    status: raw.status,
+    timestamp: Number(raw.created_time),
+  };
+}
+
+export function parsePositionHistoryEntry(raw: RawPositionHistoryEntry): PositionHistoryEntry {
+  return {
+    positionId: raw.position_id,
+    symbol: raw.symbol,
+    side: raw.side,
+    status: raw.position_status,
+    avgOpenPrice: Number(raw.avg_open_price),
+    avgClosePrice: Number(raw.avg_close_price),
+    maxPositionQty: Number(raw.max_position_qty),
+    closedPositionQty: Number(raw.closed_position_qty),
+    realizedPnl: Number(raw.realized_pnl),
+    tradingFee: Number(raw.trading_fee),
+    accumulatedFundingFee: Number(raw.accumulated_funding_fee),
+    liquidatorFee: Number(raw.liquidator_fee),
+    insuranceFundFee: Number(raw.insurance_fund_fee),
+    openTime: Number(raw.open_timestamp),
+    closeTime: raw.close_timestamp ? Number(raw.close_timestamp) : undefined,
+    updatedTime: Number(raw.last_update_time),
+  };
+}
+
+export function parseAssetTransfer(raw: RawAssetTransfer): AssetTransfer {
+  return {
+    id: raw.id,
+    txId: raw.tx_id,
+    side: raw.side,
+    token: raw.token,
+    amount: Number(raw.amount),
+    fee: Number(raw.fee),
+    status: raw.trans_status,
+    chainId: String(raw.chain_id),
+    createdTime: Number(raw.created_time),
+    updatedTime: Number(raw.updated_time),
+  };
+}
@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import * as ed from '@noble/ed25519';
+import type { OrderlyConfig } from './types.js';
+
+// Setup sha512 for ed25519
+ed.etc.sha512Sync = (...m) => crypto.createHash('sha512').update(Buffer.concat(m)).digest();
+
+export interface OrderlySigner {
+  readonly accountId: string;
+  // Public key as sent to Orderly, e.g. `ed25519:<base64url>`
+  readonly orderlyKey: string;
+  // Signs the message with the account's Orderly key; returns a base64url signature
+  sign(message: string): Promise<string>;
+}
+
+export interface OrderlyKeyPair {
+  publicKey: string;
+  secretKey: string;
+}
+
+export function toBase64Url(bytes: Uint8Array): string {
+  const b64 = Buffer.from(bytes).toString('base64');
+  return b64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '');
+}
+
+export function fromBase64Url(str: string): Uint8Array {
+  const b64 = str.replace(/-/g, '+').replace(/_/g, '/');
+  const pad = (4 - (b64.length % 4)) % 4;
+  return Uint8Array.from(Buffer.from(b64 + '='.repeat(pad), 'base64'));
+}
+
+function stripKeyPrefix(key: string): string {
+  return key.replace(/^ed25519:/, '');
+}
+
+export class Ed25519Signer implements OrderlySigner {
+  readonly orderlyKey: string;
+  private secretKey: Uint8Array;
+
+  constructor(
+    readonly accountId: string,
+    publicKey: string,
+    secretKey: string
+  ) {
+    this.orderlyKey = `ed25519:${stripKeyPrefix(publicKey)}`;
+    this.secretKey = fromBase64Url(stripKeyPrefix(secretKey));
+  }
+
+  async sign(message: string): Promise<string> {
+    return toBase64Url(ed.sign(new TextEncoder().encode(message), this.secretKey));
+  }
+
+  // Same key, different account: Orderly sub-accounts are signed with the main account's key
+  forAccount(accountId: string): Ed25519Signer {
+    return new Ed25519Signer(accountId, this.orderlyKey, toBase64Url(this.secretKey));
+  }
+}
+
+export function generateKeyPair(): OrderlyKeyPair {
+  const secretKey = ed.utils.randomPrivateKey();
+  return {
+    publicKey: toBase64Url(ed.getPublicKey(secretKey)),
+    secretKey: toBase64Url(secretKey),
+  };
+}
+
+export function verifySignature(message: string, signature: string, publicKey: string): boolean {
+  try {
+    return ed.verify(
+      fromBase64Url(signature),
+      new TextEncoder().encode(message),
+      fromBase64Url(stripKeyPrefix(publicKey))
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Headers for a signed private REST request
+export async function signRequest(
+  signer: OrderlySigner,
+  method: string,
+  path: string,
+  body?: string,
+  timestamp = Date.now()
+): Promise<Record<string, string>> {
+  const signature = await signer.sign(`${timestamp}${method}${path}${body || ''}`);
+
+  return {
+    'orderly-timestamp': timestamp.toString(),
+    'orderly-account-id': signer.accountId,
+    'orderly-key': signer.orderlyKey,
+    'orderly-signature': signature,
+  };
+}
+
+// The configured signer, else one built from plain credentials if all are present
+export function signerFromConfig(config: OrderlyConfig): OrderlySigner | undefined {
+  if (config.signer) return config.signer;
+  if (!config.accountId || !config.publicKey || !config.secretKey) return undefined;
+  return new Ed25519Signer(config.accountId, config.publicKey, config.secretKey);
+}
+
+// Reads ORDERLY_ACCOUNT_ID / ORDERLY_PUBLIC_KEY / ORDERLY_SECRET_KEY (or another prefix)
+export function signerFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+  prefix = 'ORDERLY_'
+): Ed25519Signer | undefined {
+  const accountId = env[`${prefix}ACCOUNT_ID`];
+  const publicKey = env[`${prefix}PUBLIC_KEY`];
+  const secretKey = env[`${prefix}SECRET_KEY`];
+
+  if (!accountId || !publicKey || !secretKey) return undefined;
+  return new Ed25519Signer(accountId, publicKey, secretKey);
+}
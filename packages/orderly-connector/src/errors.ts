@@ -0,0 +1,26 @@
+export class OrderlyApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number, // HTTP status, 0 for network failures
+    readonly method: string,
+    readonly path: string,
+    readonly code?: number, // Orderly error code from the response body
+    readonly retryAfterMs?: number,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'OrderlyApiError';
+  }
+
+  get isNetworkError(): boolean {
+    return this.status === 0;
+  }
+
+  get isRateLimited(): boolean {
+    return this.status === 429;
+  }
+
+  get retryable(): boolean {
+    return this.status === 0 || this.status === 429 || this.status >= 500;
+  }
+}
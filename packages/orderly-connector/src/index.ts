@@ -1,3 +1,9 @@
 export * from './types.js';
+export * from './auth.js';
+export * from './keystore.js';
 export * from './rest.js';
 export * from './websocket.js';
+export * from './orderbook.js';
+export * from './errors.js';
+export { RateLimiter, ORDERLY_RATE_LIMITS, type RateLimitRule } from './rate-limiter.js';
+export * from './price-feed.js';
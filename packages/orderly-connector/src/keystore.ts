@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { promisify } from 'util';
+import { Ed25519Signer } from './auth.js';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const KEYSTORE_VERSION = 1;
+const SCRYPT_PARAMS = { N: 1 << 15, r: 8, p: 1 };
+
+// Plaintext profile fields; only the secret key is encrypted at rest
+export interface KeystoreProfile {
+  accountId?: string;
+  publicKey?: string;
+  baseUrl?: string;
+  wsUrl?: string;
+  [field: string]: unknown;
+}
+
+interface EncryptedSecret {
+  kdf: 'scrypt';
+  n: number;
+  r: number;
+  p: number;
+  salt: string;
+  cipher: 'aes-256-gcm';
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+interface StoredProfile extends KeystoreProfile {
+  secret?: EncryptedSecret;
+}
+
+interface KeystoreFile {
+  version: number;
+  profiles: Record<string, StoredProfile>;
+}
+
+// Password-encrypted store of named Orderly key profiles (scrypt + AES-256-GCM).
+// Profile metadata stays readable so profiles can be listed without the password.
+export class OrderlyKeystore {
+  private constructor(
+    readonly path: string,
+    private profiles: Record<string, StoredProfile>
+  ) {}
+
+  static async open(path: string): Promise<OrderlyKeystore> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new OrderlyKeystore(path, {});
+      throw error;
+    }
+
+    const file = JSON.parse(contents) as KeystoreFile;
+    if (file.version !== KEYSTORE_VERSION) {
+      throw new Error(`Unsupported keystore version ${file.version} in ${path}`);
+    }
+    return new OrderlyKeystore(path, file.profiles ?? {});
+  }
+
+  list(): string[] {
+    return Object.keys(this.profiles);
+  }
+
+  has(name: string): boolean {
+    return name in this.profiles;
+  }
+
+  getProfile(name: string): KeystoreProfile | undefined {
+    const stored = this.profiles[name];
+    if (!stored) return undefined;
+
+    const { secret, ...profile } = stored;
+    return profile;
+  }
+
+  hasSecret(name: string): boolean {
+    return Boolean(this.profiles[name]?.secret);
+  }
+
+  async getSecretKey(name: string, password: string): Promise<string> {
+    const secret = this.profiles[name]?.secret;
+    if (!secret) {
+      throw new Error(`Keystore profile "${name}" has no secret key`);
+    }
+    return decrypt(secret, password);
+  }
+
+  async getSigner(name: string, password: string): Promise<Ed25519Signer> {
+    const profile = this.profiles[name];
+    if (!profile) {
+      throw new Error(`Keystore profile "${name}" not found in ${this.path}`);
+    }
+    if (!profile.accountId || !profile.publicKey) {
+      throw new Error(`Keystore profile "${name}" has no account ID or public key`);
+    }
+
+    const secretKey = await this.getSecretKey(name, password);
+    return new Ed25519Signer(profile.accountId, profile.publicKey, secretKey);
+  }
+
+  // Replaces the profile's metadata. The stored secret is kept unless a new one is given
+  // or `secretKey` is explicitly null.
+  async setProfile(
+    name: string,
+    profile: KeystoreProfile,
+    secret?: { secretKey: string | null; password: string }
+  ): Promise<void> {
+    const stored: StoredProfile = { ...profile, secret: this.profiles[name]?.secret };
+
+    if (secret) {
+      stored.secret = secret.secretKey === null ? undefined : await encrypt(secret.secretKey, secret.password);
+    }
+
+    this.profiles[name] = stored;
+    await this.save();
+  }
+
+  async removeProfile(name: string): Promise<void> {
+    delete this.profiles[name];
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    const file: KeystoreFile = { version: KEYSTORE_VERSION, profiles: this.profiles };
+    const tmp = `${this.path}.tmp`;
+
+    await fs.writeFile(tmp, JSON.stringify(file, null, 2) + '\n', { mode: 0o600 });
+    await fs.rename(tmp, this.path);
+  }
+}
+
+async function deriveKey(password: string, salt: Buffer, n: number, r: number, p: number): Promise<Buffer> {
+  return scrypt(password, salt, 32, { N: n, r, p, maxmem: 256 * n * r });
+}
+
+async function encrypt(plaintext: string, password: string): Promise<EncryptedSecret> {
+  const { N, r, p } = SCRYPT_PARAMS;
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const key = await deriveKey(password, salt, N, r, p);
+
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+  return {
+    kdf: 'scrypt',
+    n: N,
+    r,
+    p,
+    salt: salt.toString('hex'),
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex'),
+    ciphertext: ciphertext.toString('hex'),
+  };
+}
+
+async function decrypt(secret: EncryptedSecret, password: string): Promise<string> {
+  const key = await deriveKey(password, Buffer.from(secret.salt, 'hex'), secret.n, secret.r, secret.p);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(secret.iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(secret.tag, 'hex'));
+
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(secret.ciphertext, 'hex')), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new Error('Failed to decrypt keystore secret: wrong password or corrupted file');
+  }
+}
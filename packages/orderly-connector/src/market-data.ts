@@ -0,0 +1,118 @@
+import type { FuturesInfo, SymbolInfo, FundingRate, FundingRateHistoryEntry } from './types.js';
+
+// Raw payloads from Orderly public endpoints; numeric fields may arrive as strings
+
+export interface RawFuturesInfo {
+  symbol: string;
+  mark_price: number | string;
+  index_price: number | string;
+  '24h_open': number | string;
+  '24h_close': number | string;
+  '24h_high': number | string;
+  '24h_low': number | string;
+  '24h_volume': number | string;
+  '24h_amount': number | string;
+  open_interest: number | string;
+  est_funding_rate: number | string;
+  last_funding_rate: number | string;
+  next_funding_time: number;
+  sum_unitary_funding: number | string;
+}
+
+export interface RawSymbolInfo {
+  symbol: string;
+  base_tick: number;
+  quote_tick: number;
+  base_min: number;
+  base_max: number;
+  quote_min: number;
+  quote_max: number;
+  min_notional: number;
+  price_range: number;
+  base_imr: number;
+  base_mmr: number;
+  imr_factor: number;
+  funding_period: number;
+  cap_funding: number;
+  floor_funding: number;
+}
+
+export interface RawFundingRate {
+  symbol: string;
+  est_funding_rate: number;
+  est_funding_rate_timestamp: number;
+  last_funding_rate: number;
+  last_funding_rate_timestamp: number;
+  next_funding_time: number;
+  sum_unitary_funding: number;
+}
+
+export interface RawFundingRateHistoryEntry {
+  symbol: string;
+  funding_rate: number;
+  funding_rate_timestamp: number;
+  next_funding_time: number;
+}
+
+export function parseFuturesInfo(raw: RawFuturesInfo): FuturesInfo {
+  return {
+    symbol: raw.symbol,
+    markPrice: Number(raw.mark_price),
+    indexPrice: Number(raw.index_price),
+    lastPrice: Number(raw['24h_close']),
+    open24h: Number(raw['24h_open']),
+    high24h: Number(raw['24h_high']),
+    low24h: Number(raw['24h_low']),
+    volume24h: Number(raw['24h_volume']),
+    amount24h: Number(raw['24h_amount']),
+    openInterest: Number(raw.open_interest),
+    estFundingRate: Number(raw.est_funding_rate),
+    lastFundingRate: Number(raw.last_funding_rate),
+    nextFundingTime: Number(raw.next_funding_time),
+    sumUnitaryFunding: Number(raw.sum_unitary_funding),
+  };
+}
+
+export function parseSymbolInfo(raw: RawSymbolInfo): SymbolInfo {
+  const baseImr = Number(raw.base_imr);
+
+  return {
+    symbol: raw.symbol,
+    baseTick: Number(raw.base_tick),
+    quoteTick: Number(raw.quote_tick),
+    baseMin: Number(raw.base_min),
+    baseMax: Number(raw.base_max),
+    quoteMin: Number(raw.quote_min),
+    quoteMax: Number(raw.quote_max),
+    minNotional: Number(raw.min_notional),
+    priceRange: Number(raw.price_range),
+    baseImr,
+    baseMmr: Number(raw.base_mmr),
+    imrFactor: Number(raw.imr_factor),
+    maxLeverage: baseImr > 0 ? Math.floor(1 / baseImr) : 1,
+    fundingPeriodHours: Number(raw.funding_period),
+    capFunding: Number(raw.cap_funding),
+    floorFunding: Number(raw.floor_funding),
+  };
+}
+
+export function parseFundingRate(raw: RawFundingRate): FundingRate {
+  return {
+    symbol: raw.symbol,
+    estFundingRate: Number(raw.est_funding_rate),
+    estFundingRateTime: Number(raw.est_funding_rate_timestamp),
+    lastFundingRate: Number(raw.last_funding_rate),
+    lastFundingRateTime: Number(raw.last_funding_rate_timestamp),
+    nextFundingTime: Number(raw.next_funding_time),
+    sumUnitaryFunding: Number(raw.sum_unitary_funding),
+  };
+}
+
+export function parseFundingRateHistoryEntry(raw: RawFundingRateHistoryEntry): FundingRateHistoryEntry {
+  return {
+    symbol: raw.symbol,
+    fundingRate: Number(raw.funding_rate),
+    fundingRateTime: Number(raw.funding_rate_timestamp),
+    nextFundingTime: Number(raw.next_funding_time),
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { LocalOrderBook } from './orderbook.js';
+import type { OrderBookUpdate } from './types.js';
+
+const update = (ts: number, prevTs: number, bids: [number, number][] = [], asks: [number, number][] = []): OrderBookUpdate =>
+  ({ symbol: 'X', ts, prevTs, bids, asks });
+
+describe('LocalOrderBook', () => {
+  it('buffers updates until the snapshot and replays only the newer ones', () => {
+    const book = new LocalOrderBook('X');
+    expect(book.applyUpdate(update(1, 0, [[99, 1]]))).toBe(true);
+    expect(book.applyUpdate(update(2, 1, [[98, 2]]))).toBe(true);
+    expect(book.applyUpdate(update(3, 2, [[97, 3]], [[101, 0]]))).toBe(true);
+    expect(book.isSynced()).toBe(false);
+
+    expect(book.applySnapshot({ symbol: 'X', ts: 2, bids: [[100, 5]], asks: [[101, 1], [102, 1]] })).toBe(true);
+
+    expect(book.isSynced()).toBe(true);
+    expect(book.getLastUpdateTs()).toBe(3);
+    expect(book.getBids()).toEqual([{ price: 100, qty: 5 }, { price: 97, qty: 3 }]);
+    expect(book.getAsks()).toEqual([{ price: 102, qty: 1 }]);
+    expect(book.spread()).toBe(2);
+    expect(book.mid()).toBe(101);
+  });
+
+  it('accepts a first update that starts before the snapshot', () => {
+    const book = new LocalOrderBook('X');
+    book.applySnapshot({ symbol: 'X', ts: 10, bids: [[100, 1]], asks: [] });
+
+    expect(book.applyUpdate(update(12, 8, [[100, 2]]))).toBe(true);
+    expect(book.bestBid()).toEqual({ price: 100, qty: 2 });
+  });
+
+  it('ignores updates it already has and reports a sequence gap', () => {
+    const book = new LocalOrderBook('X');
+    book.applySnapshot({ symbol: 'X', ts: 10, bids: [[100, 1]], asks: [] });
+    expect(book.applyUpdate(update(11, 10, [[100, 2]]))).toBe(true);
+    expect(book.applyUpdate(update(11, 10, [[100, 9]]))).toBe(true);
+    expect(book.bestBid()!.qty).toBe(2);
+
+    expect(book.applyUpdate(update(14, 13))).toBe(false);
+    expect(book.isSynced()).toBe(false);
+    expect(book.getBids()).toEqual([]);
+  });
+
+  it('reports a gap between the snapshot and the buffered updates', () => {
+    const book = new LocalOrderBook('X');
+    book.applyUpdate(update(20, 15));
+
+    expect(book.applySnapshot({ symbol: 'X', ts: 10, bids: [], asks: [] })).toBe(false);
+    expect(book.isSynced()).toBe(false);
+  });
+
+  it('drops the buffer and asks for a resync when the snapshot is overdue', () => {
+    const book = new LocalOrderBook('X', 3);
+    expect([1, 2, 3].map((ts) => book.applyUpdate(update(ts, ts - 1)))).toEqual([true, true, true]);
+
+    expect(book.applyUpdate(update(4, 3))).toBe(false);
+
+    // Buffering starts over, so a fresh snapshot syncs without the dropped updates
+    expect(book.applyUpdate(update(5, 4, [[100, 1]]))).toBe(true);
+    expect(book.applySnapshot({ symbol: 'X', ts: 4, bids: [[99, 1]], asks: [] })).toBe(true);
+    expect(book.getBids()).toEqual([{ price: 100, qty: 1 }, { price: 99, qty: 1 }]);
+  });
+
+  it('sums depth at a price or better', () => {
+    const book = new LocalOrderBook('X');
+    book.applySnapshot({ symbol: 'X', ts: 1, bids: [[100, 1], [99, 2], [98, 4]], asks: [[101, 1], [102, 3]] });
+
+    expect(book.depthAtPrice('bid', 99)).toBe(3);
+    expect(book.depthAtPrice('ask', 102)).toBe(4);
+    expect(book.depthAtPrice('ask', 100)).toBe(0);
+  });
+});
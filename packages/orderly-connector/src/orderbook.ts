@@ -0,0 +1,152 @@
+import type {
+  OrderBookLevel,
+  OrderBookSide,
+  OrderBookSnapshot,
+  OrderBookUpdate,
+  RawOrderBookLevel,
+} from './types.js';
+
+export type OrderBookCallback = (book: LocalOrderBook) => void;
+
+export class LocalOrderBook {
+  private bids = new Map<number, number>();
+  private asks = new Map<number, number>();
+  private sortedBids: OrderBookLevel[] | null = null;
+  private sortedAsks: OrderBookLevel[] | null = null;
+  private pending: OrderBookUpdate[] = [];
+  private synced = false;
+  private lastTs = 0;
+
+  // maxPending caps the updates buffered while waiting for a snapshot
+  constructor(readonly symbol: string, private maxPending = 1000) {}
+
+  isSynced(): boolean {
+    return this.synced;
+  }
+
+  getLastUpdateTs(): number {
+    return this.lastTs;
+  }
+
+  applySnapshot(snapshot: OrderBookSnapshot): boolean {
+    this.bids.clear();
+    this.asks.clear();
+    this.setLevels(this.bids, snapshot.bids);
+    this.setLevels(this.asks, snapshot.asks);
+    this.lastTs = snapshot.ts;
+    this.synced = true;
+    this.invalidate();
+
+    // Replay updates that arrived while waiting for the snapshot
+    const buffered = this.pending;
+    this.pending = [];
+    for (const update of buffered) {
+      if (update.ts <= snapshot.ts) continue;
+      if (!this.applyUpdate(update)) return false;
+    }
+
+    return true;
+  }
+
+  // Returns false on a sequence gap, or when the snapshot is so late the buffer
+  // fills up; the book is then out of sync until the next snapshot
+  applyUpdate(update: OrderBookUpdate): boolean {
+    if (!this.synced) {
+      if (this.pending.length >= this.maxPending) {
+        this.reset();
+        return false;
+      }
+      this.pending.push(update);
+      return true;
+    }
+
+    if (update.ts <= this.lastTs) return true;
+
+    // The first update after a snapshot may start before the snapshot ts
+    if (update.prevTs > this.lastTs) {
+      this.reset();
+      return false;
+    }
+
+    this.setLevels(this.bids, update.bids);
+    this.setLevels(this.asks, update.asks);
+    this.lastTs = update.ts;
+    this.invalidate();
+    return true;
+  }
+
+  reset(): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.pending = [];
+    this.synced = false;
+    this.lastTs = 0;
+    this.invalidate();
+  }
+
+  getBids(depth?: number): OrderBookLevel[] {
+    if (!this.sortedBids) {
+      this.sortedBids = toLevels(this.bids).sort((a, b) => b.price - a.price);
+    }
+    return depth === undefined ? this.sortedBids : this.sortedBids.slice(0, depth);
+  }
+
+  getAsks(depth?: number): OrderBookLevel[] {
+    if (!this.sortedAsks) {
+      this.sortedAsks = toLevels(this.asks).sort((a, b) => a.price - b.price);
+    }
+    return depth === undefined ? this.sortedAsks : this.sortedAsks.slice(0, depth);
+  }
+
+  bestBid(): OrderBookLevel | undefined {
+    return this.getBids()[0];
+  }
+
+  bestAsk(): OrderBookLevel | undefined {
+    return this.getAsks()[0];
+  }
+
+  spread(): number | undefined {
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    return bid && ask ? ask.price - bid.price : undefined;
+  }
+
+  mid(): number | undefined {
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    return bid && ask ? (ask.price + bid.price) / 2 : undefined;
+  }
+
+  // Cumulative quantity at the given price or better (bids >= price, asks <= price)
+  depthAtPrice(side: OrderBookSide, price: number): number {
+    const levels = side === 'bid' ? this.getBids() : this.getAsks();
+    let qty = 0;
+
+    for (const level of levels) {
+      if (side === 'bid' ? level.price < price : level.price > price) break;
+      qty += level.qty;
+    }
+
+    return qty;
+  }
+
+  private setLevels(book: Map<number, number>, levels: RawOrderBookLevel[]): void {
+    for (const [price, qty] of levels) {
+      if (qty === 0) {
+        book.delete(price);
+      } else {
+        book.set(price, qty);
+      }
+    }
+  }
+
+  private invalidate(): void {
+    this.sortedBids = null;
+    this.sortedAsks = null;
+  }
+}
+
+function toLevels(book: Map<number, number>): OrderBookLevel[] {
+  return Array.from(book, ([price, qty]) => ({ price, qty }));
+}
@@ -0,0 +1,154 @@
+import { EventEmitter } from 'events';
+import type { OrderlyRestClient } from './rest.js';
+import type { OrderlyWebSocketClient } from './websocket.js';
+import type { TickerData } from './types.js';
+
+export interface PriceQuote {
+  symbol: string;
+  price: number;
+  timestamp: number;
+  source: 'ws' | 'rest';
+}
+
+export type PriceQuoteCallback = (quote: PriceQuote) => void;
+
+export interface PriceFeedConfig {
+  rest: OrderlyRestClient;
+  ws?: OrderlyWebSocketClient;
+  pollIntervalMs?: number;
+  staleAfterMs?: number;
+}
+
+// WebSocket-driven price feed. Falls back to REST polling for any symbol whose
+// socket is down or has gone quiet for longer than two poll intervals.
+export class PriceFeed extends EventEmitter {
+  private rest: OrderlyRestClient;
+  private ws?: OrderlyWebSocketClient;
+  private pollIntervalMs: number;
+  private staleAfterMs: number;
+
+  private quotes = new Map<string, PriceQuote>();
+  private tickerHandlers = new Map<string, (ticker: TickerData) => void>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  // Symbols with a REST request outstanding; a slow poll is not stacked on
+  private polling = new Set<string>();
+
+  constructor(config: PriceFeedConfig) {
+    super();
+    this.rest = config.rest;
+    this.ws = config.ws;
+    this.pollIntervalMs = config.pollIntervalMs ?? 1000;
+    this.staleAfterMs = config.staleAfterMs ?? 10000;
+  }
+
+  async subscribe(symbol: string): Promise<void> {
+    if (this.tickerHandlers.has(symbol)) return;
+
+    const handler = (ticker: TickerData) => {
+      this.update({ symbol, price: ticker.price, timestamp: ticker.timestamp, source: 'ws' });
+    };
+    this.tickerHandlers.set(symbol, handler);
+    this.ws?.subscribeTicker(symbol, handler);
+
+    await this.poll(symbol);
+    this.startPolling();
+  }
+
+  unsubscribe(symbol: string): void {
+    const handler = this.tickerHandlers.get(symbol);
+    if (!handler) return;
+
+    this.ws?.unsubscribeTicker(symbol, handler);
+    this.tickerHandlers.delete(symbol);
+    this.quotes.delete(symbol);
+
+    if (this.tickerHandlers.size === 0) {
+      this.stopPolling();
+    }
+  }
+
+  getQuote(symbol: string): PriceQuote | undefined {
+    return this.quotes.get(symbol);
+  }
+
+  getPrice(symbol: string): number | undefined {
+    return this.quotes.get(symbol)?.price;
+  }
+
+  isStale(symbol: string, maxAgeMs = this.staleAfterMs): boolean {
+    const quote = this.quotes.get(symbol);
+    return !quote || Date.now() - quote.timestamp > maxAgeMs;
+  }
+
+  onPrice(symbol: string, callback: PriceQuoteCallback): void {
+    this.on(`price:${symbol}`, callback);
+  }
+
+  offPrice(symbol: string, callback: PriceQuoteCallback): void {
+    this.off(`price:${symbol}`, callback);
+  }
+
+  stop(): void {
+    this.stopPolling();
+    for (const [symbol, handler] of this.tickerHandlers) {
+      this.ws?.unsubscribeTicker(symbol, handler);
+    }
+    this.tickerHandlers.clear();
+  }
+
+  private update(quote: PriceQuote): void {
+    if (!(quote.price > 0)) return;
+
+    // Late replies and out-of-order ticks never replace a newer quote
+    const current = this.quotes.get(quote.symbol);
+    if (current && quote.timestamp < current.timestamp) return;
+
+    this.quotes.set(quote.symbol, quote);
+    this.emit(`price:${quote.symbol}`, quote);
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => {
+      for (const symbol of this.tickerHandlers.keys()) {
+        if (this.needsFallback(symbol)) {
+          this.poll(symbol);
+        }
+      }
+    }, this.pollIntervalMs);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private needsFallback(symbol: string): boolean {
+    if (!this.ws?.isConnected()) return true;
+
+    const quote = this.quotes.get(symbol);
+    return !quote || quote.source === 'rest' || Date.now() - quote.timestamp > this.pollIntervalMs * 2;
+  }
+
+  private async poll(symbol: string): Promise<void> {
+    if (this.polling.has(symbol)) return;
+    this.polling.add(symbol);
+
+    // Stamped when requested: the price is at least that fresh, and a slow
+    // reply cannot pass for newer than ticks that arrived while it was pending
+    const requestedAt = Date.now();
+    try {
+      const info = await this.rest.getFuturesInfo(symbol);
+      if (this.tickerHandlers.has(symbol)) {
+        this.update({ symbol, price: info.lastPrice, timestamp: requestedAt, source: 'rest' });
+      }
+    } catch (error) {
+      console.error(`[Price] Failed to fetch ${symbol}:`, error);
+    } finally {
+      this.polling.delete(symbol);
+    }
+  }
+}
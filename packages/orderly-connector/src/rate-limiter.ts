@@ -0,0 +1,68 @@
+export interface RateLimitRule {
+  method?: string;
+  pathPrefix: string;
+  limit: number;
+  intervalMs: number;
+}
+
+// Orderly's published per-endpoint limits, most specific first
+export const ORDERLY_RATE_LIMITS: RateLimitRule[] = [
+  { method: 'POST', pathPrefix: '/v1/order', limit: 10, intervalMs: 1000 },
+  { method: 'DELETE', pathPrefix: '/v1/order', limit: 10, intervalMs: 1000 },
+  { method: 'GET', pathPrefix: '/v1/orders', limit: 10, intervalMs: 1000 },
+  { method: 'GET', pathPrefix: '/v1/client/order', limit: 10, intervalMs: 1000 },
+  { method: 'POST', pathPrefix: '/v1/algo/order', limit: 10, intervalMs: 1000 },
+  { method: 'DELETE', pathPrefix: '/v1/algo/order', limit: 10, intervalMs: 1000 },
+  { method: 'GET', pathPrefix: '/v1/algo/', limit: 10, intervalMs: 1000 },
+  { method: 'GET', pathPrefix: '/v1/positions', limit: 30, intervalMs: 10_000 },
+  { method: 'GET', pathPrefix: '/v1/client/info', limit: 10, intervalMs: 60_000 },
+  { method: 'GET', pathPrefix: '/v1/asset/history', limit: 10, intervalMs: 60_000 },
+  { pathPrefix: '/v1/public/', limit: 10, intervalMs: 1000 },
+  { pathPrefix: '/v1/tv/', limit: 10, intervalMs: 1000 },
+  { pathPrefix: '/', limit: 10, intervalMs: 1000 },
+];
+
+// Sliding-window limiter keyed by rule; share one instance between clients
+// that use the same Orderly account
+export class RateLimiter {
+  private windows = new Map<RateLimitRule, number[]>();
+  private queues = new Map<RateLimitRule, Promise<void>>();
+
+  constructor(private rules: RateLimitRule[] = ORDERLY_RATE_LIMITS) {}
+
+  acquire(method: string, path: string): Promise<void> {
+    const rule = this.rules.find(
+      (r) => (!r.method || r.method === method) && path.startsWith(r.pathPrefix)
+    );
+    if (!rule) return Promise.resolve();
+
+    // Chain per rule so waiters are released in arrival order
+    const previous = this.queues.get(rule) ?? Promise.resolve();
+    const next = previous.then(() => this.take(rule));
+    this.queues.set(rule, next);
+    return next;
+  }
+
+  private async take(rule: RateLimitRule): Promise<void> {
+    const window = this.windows.get(rule) ?? [];
+    this.windows.set(rule, window);
+
+    for (;;) {
+      const now = Date.now();
+      while (window.length > 0 && now - window[0] >= rule.intervalMs) {
+        window.shift();
+      }
+
+      if (window.length < rule.limit) {
+        window.push(now);
+        return;
+      }
+
+      await sleep(window[0] + rule.intervalMs - now);
+    }
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
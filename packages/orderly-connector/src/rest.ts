@@ -1,73 +1,235 @@
 import crypto from 'crypto';
-import fetch from 'node-fetch';
-import * as ed from '@noble/ed25519';
+import fetch, { type RequestInit, type Response } from 'node-fetch';
 import type {
   OrderlyConfig,
   OrderRequest,
   OrderResponse,
   Position,
+  PositionsInfo,
   AccountInfo,
+  Candle,
+  KlineInterval,
+  KlineQuery,
+  FuturesInfo,
+  SymbolInfo,
+  FundingRate,
+  FundingRateHistoryEntry,
+  AlgoOrderRequest,
+  AlgoOrderCreated,
+  AlgoOrder,
+  AlgoOrderQuery,
+  AlgoChildOrder,
+  StopOrderParams,
+  TpSlParams,
+  TrailingStopParams,
+  HistoryQuery,
+  Page,
+  Trade,
+  FundingFee,
+  PnlSettlement,
+  PositionHistoryEntry,
+  AssetHistoryQuery,
+  AssetTransfer,
 } from './types.js';
+import {
+  parseFuturesInfo,
+  parseSymbolInfo,
+  parseFundingRate,
+  parseFundingRateHistoryEntry,
+  type RawFuturesInfo,
+  type RawSymbolInfo,
+  type RawFundingRate,
+  type RawFundingRateHistoryEntry,
+} from './market-data.js';
+import {
+  parseTrade,
+  parseFundingFee,
+  parsePnlSettlement,
+  parsePositionHistoryEntry,
+  parseAssetTransfer,
+  type RawTrade,
+  type RawFundingFee,
+  type RawPnlSettlement,
+  type RawPositionHistoryEntry,
+  type RawAssetTransfer,
+} from './account-history.js';
+import { OrderlyApiError } from './errors.js';
+import { signerFromConfig, signRequest, type OrderlySigner } from './auth.js';
+import { RateLimiter, sleep } from './rate-limiter.js';
 
-// Setup sha512 for ed25519
-ed.etc.sha512Sync = (...m) => crypto.createHash('sha512').update(Buffer.concat(m)).digest();
+export const KLINE_INTERVAL_MS: Record<KlineInterval, number> = {
+  '1m': 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+  '30m': 30 * 60_000,
+  '1h': 60 * 60_000,
+  '4h': 4 * 60 * 60_000,
+  '12h': 12 * 60 * 60_000,
+  '1d': 24 * 60 * 60_000,
+  '1w': 7 * 24 * 60 * 60_000,
+};
 
-export class OrderlyRestClient {
-  constructor(private config: OrderlyConfig) {}
+// TradingView resolutions accepted by /v1/tv/history
+const TV_RESOLUTION: Record<KlineInterval, string> = {
+  '1m': '1',
+  '5m': '5',
+  '15m': '15',
+  '30m': '30',
+  '1h': '60',
+  '4h': '240',
+  '12h': '720',
+  '1d': '1D',
+  '1w': '1W',
+};
 
-  private fromBase64Url(str: string): Uint8Array {
-    const b64 = str.replace(/-/g, '+').replace(/_/g, '/');
-    const pad = (4 - (b64.length % 4)) % 4;
-    return Uint8Array.from(Buffer.from(b64 + '='.repeat(pad), 'base64'));
-  }
+const MAX_KLINES_PER_REQUEST = 1000;
+const FUNDING_HISTORY_PAGE_SIZE = 500;
+const ACCOUNT_HISTORY_PAGE_SIZE = 500;
+
+interface RawPage<T> {
+  meta: { total: number; records_per_page: number; current_page: number };
+  rows: T[];
+}
+
+interface TvHistoryResponse {
+  s: 'ok' | 'no_data' | 'error';
+  errmsg?: string;
+  t?: number[];
+  o?: number[];
+  h?: number[];
+  l?: number[];
+  c?: number[];
+  v?: number[];
+}
+
+export interface OrderlyRestOptions {
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  maxRetryDelayMs?: number;
+  rateLimiter?: RateLimiter;
+}
 
-  private toBase64Url(bytes: Uint8Array): string {
-    const b64 = Buffer.from(bytes).toString('base64');
-    return b64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '');
+export class OrderlyRestClient {
+  private rateLimiter: RateLimiter;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private maxRetryDelayMs: number;
+  private signer?: OrderlySigner;
+
+  constructor(private config: OrderlyConfig, options: OrderlyRestOptions = {}) {
+    this.signer = signerFromConfig(config);
+    this.rateLimiter = options.rateLimiter ?? new RateLimiter();
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 250;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 5000;
   }
 
-  private async sign(timestamp: number, method: string, path: string, body?: string): Promise<string> {
-    const message = `${timestamp}${method}${path}${body || ''}`;
-    const secretKey = this.fromBase64Url(this.config.secretKey);
-    const signature = await ed.sign(new TextEncoder().encode(message), secretKey);
-    return this.toBase64Url(signature);
+  private requireSigner(): OrderlySigner {
+    if (!this.signer) {
+      throw new Error('Orderly credentials or a signer are required for private endpoints');
+    }
+    return this.signer;
   }
 
+  // Signed private request; unwraps the `data` field of Orderly's response envelope
   private async request<T>(
     method: string,
     path: string,
-    body?: any
+    body?: any,
+    options: { beforeRetry?: () => Promise<T | undefined> } = {}
   ): Promise<T> {
-    const timestamp = Date.now();
+    const idempotent = method !== 'POST';
     const bodyString = body ? JSON.stringify(body) : undefined;
-    const signature = await this.sign(timestamp, method, path, bodyString);
-
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'orderly-timestamp': timestamp.toString(),
-      'orderly-account-id': this.config.accountId,
-      'orderly-key': this.config.publicKey,
-      'orderly-signature': signature,
-    };
 
-    const url = `${this.config.baseUrl}${path}`;
-    const options: any = {
-      method,
-      headers,
-    };
+    return this.withRetry(idempotent, async () => {
+      // Re-sign on every attempt so the timestamp stays fresh
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        ...(await signRequest(this.requireSigner(), method, path, bodyString)),
+      };
+
+      const envelope = await this.send<{ data: T }>(method, path, { method, headers, body: bodyString });
+      return envelope.data;
+    }, options.beforeRetry);
+  }
 
-    if (bodyString) {
-      options.body = bodyString;
+  private async publicRequest<T>(path: string): Promise<T> {
+    return this.withRetry(true, () => this.send<T>('GET', path, { method: 'GET' }));
+  }
+
+  private async send<T>(method: string, path: string, init: RequestInit): Promise<T> {
+    await this.rateLimiter.acquire(method, path);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl}${path}`, init);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new OrderlyApiError(`Orderly request failed: ${message}`, 0, method, path, undefined, undefined, {
+        cause: error,
+      });
     }
 
-    const response = await fetch(url, options);
+    const text = await response.text();
+    let parsed: any;
+    try {
+      parsed = text ? JSON.parse(text) : undefined;
+    } catch {
+      parsed = undefined;
+    }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Orderly API error: ${response.status} ${error}`);
+    if (!response.ok || parsed?.success === false) {
+      const retryAfter = Number(response.headers.get('retry-after'));
+      throw new OrderlyApiError(
+        `Orderly API error: ${response.status} ${parsed?.message ?? text}`,
+        response.status,
+        method,
+        path,
+        typeof parsed?.code === 'number' ? parsed.code : undefined,
+        retryAfter > 0 ? retryAfter * 1000 : undefined
+      );
     }
 
-    return (await response.json()) as T;
+    return parsed as T;
+  }
+
+  // Retries 429/5xx/network failures with jittered exponential backoff.
+  // Non-idempotent calls are only retried when the server rejected them
+  // outright (429), unless beforeRetry proves the first attempt did not land
+  // (the lookup returns undefined on a 404).
+  private async withRetry<T>(
+    idempotent: boolean,
+    attempt: () => Promise<T>,
+    beforeRetry?: () => Promise<T | undefined>
+  ): Promise<T> {
+    for (let i = 0; ; i++) {
+      try {
+        return await attempt();
+      } catch (error) {
+        const retryable =
+          error instanceof OrderlyApiError &&
+          error.retryable &&
+          (idempotent || error.isRateLimited || beforeRetry !== undefined);
+
+        if (!retryable || i >= this.maxRetries) throw error;
+
+        const backoff = Math.min(this.maxRetryDelayMs, this.retryBaseDelayMs * 2 ** i);
+        await sleep(Math.max(error.retryAfterMs ?? 0, Math.random() * backoff));
+
+        // beforeRetry resolves undefined only when the exchange says the first
+        // attempt does not exist; a lookup that fails leaves it unknown, and
+        // posting again could duplicate the order
+        if (beforeRetry) {
+          let recovered: T | undefined;
+          try {
+            recovered = await beforeRetry();
+          } catch {
+            throw error;
+          }
+          if (recovered !== undefined) return recovered;
+        }
+      }
+    }
   }
 
   async getAccountInfo(): Promise<AccountInfo> {
@@ -75,12 +237,44 @@ export class OrderlyRestClient {
   }
 
   async getPositions(): Promise<Position[]> {
-    const response = await this.request<{ rows: Position[] }>('GET', '/v1/positions');
-    return response.rows || [];
+    return (await this.getPositionsInfo()).rows;
   }
 
+  // Balances come from here: /v1/client/info only carries account settings
+  async getPositionsInfo(): Promise<PositionsInfo> {
+    const response = await this.request<PositionsInfo>('GET', '/v1/positions');
+    return { ...response, rows: response.rows || [] };
+  }
+
+  // Orders always carry a client_order_id so a retry after an ambiguous
+  // failure can look up the first attempt instead of placing a duplicate
   async createOrder(order: OrderRequest): Promise<OrderResponse> {
-    return this.request<OrderResponse>('POST', '/v1/order', order);
+    const request: OrderRequest = {
+      ...order,
+      client_order_id: order.client_order_id ?? crypto.randomUUID(),
+    };
+
+    return this.request<OrderResponse>('POST', '/v1/order', request, {
+      beforeRetry: () => this.getOrderByClientOrderId(request.client_order_id!),
+    });
+  }
+
+  async getOrder(orderId: string): Promise<OrderResponse | undefined> {
+    try {
+      return await this.request<OrderResponse>('GET', `/v1/order/${orderId}`);
+    } catch (error) {
+      if (error instanceof OrderlyApiError && error.status === 404) return undefined;
+      throw error;
+    }
+  }
+
+  async getOrderByClientOrderId(clientOrderId: string): Promise<OrderResponse | undefined> {
+    try {
+      return await this.request<OrderResponse>('GET', `/v1/client/order/${clientOrderId}`);
+    } catch (error) {
+      if (error instanceof OrderlyApiError && error.status === 404) return undefined;
+      throw error;
+    }
   }
 
   async cancelOrder(orderId: string, symbol: string): Promise<void> {
@@ -93,16 +287,312 @@ export class OrderlyRestClient {
     return response.rows || [];
   }
 
-  async getTicker(symbol: string): Promise<any> {
-    const url = `${this.config.baseUrl}/v1/public/futures/${symbol}`;
-    const response = await fetch(url);
+  // Algo orders live on the exchange, so protective exits survive a process crash
+  async createAlgoOrder(order: AlgoOrderRequest): Promise<AlgoOrderCreated[]> {
+    const request: AlgoOrderRequest = {
+      ...order,
+      client_order_id: order.client_order_id ?? crypto.randomUUID(),
+    };
+
+    const response = await this.request<{ rows: AlgoOrderCreated[] }>('POST', '/v1/algo/order', request, {
+      beforeRetry: async () => {
+        const existing = await this.getAlgoOrderByClientOrderId(request.client_order_id!);
+        if (!existing) return undefined;
+
+        const created: AlgoOrderCreated = {
+          order_id: existing.algo_order_id,
+          client_order_id: existing.client_order_id,
+          algo_type: existing.algo_type,
+          quantity: existing.quantity,
+        };
+        return { rows: [created] };
+      },
+    });
+    return response.rows || [];
+  }
+
+  async createStopOrder(params: StopOrderParams): Promise<AlgoOrderCreated[]> {
+    return this.createAlgoOrder({
+      symbol: params.symbol,
+      algo_type: 'STOP',
+      side: params.side,
+      type: params.limitPrice === undefined ? 'MARKET' : 'LIMIT',
+      quantity: params.quantity,
+      price: params.limitPrice,
+      trigger_price: params.triggerPrice,
+      trigger_price_type: 'MARK_PRICE',
+      reduce_only: params.reduceOnly,
+    });
+  }
+
+  // Attaches TP and/or SL to a position; without quantity it covers the whole position
+  async createTpSlOrder(params: TpSlParams): Promise<AlgoOrderCreated[]> {
+    const childOrders: AlgoChildOrder[] = [];
+    if (params.takeProfitPrice !== undefined) {
+      childOrders.push({
+        symbol: params.symbol,
+        algo_type: 'TAKE_PROFIT',
+        side: params.side,
+        type: 'MARKET',
+        trigger_price: params.takeProfitPrice,
+        reduce_only: true,
+      });
+    }
+    if (params.stopLossPrice !== undefined) {
+      childOrders.push({
+        symbol: params.symbol,
+        algo_type: 'STOP_LOSS',
+        side: params.side,
+        type: 'MARKET',
+        trigger_price: params.stopLossPrice,
+        reduce_only: true,
+      });
+    }
+    if (childOrders.length === 0) {
+      throw new Error('TP/SL order needs a take-profit or stop-loss price');
+    }
+
+    return this.createAlgoOrder({
+      symbol: params.symbol,
+      algo_type: params.quantity === undefined ? 'POSITIONAL_TP_SL' : 'TP_SL',
+      quantity: params.quantity,
+      trigger_price_type: 'MARK_PRICE',
+      reduce_only: true,
+      child_orders: childOrders,
+    });
+  }
+
+  async createTrailingStop(params: TrailingStopParams): Promise<AlgoOrderCreated[]> {
+    if ((params.callbackRate === undefined) === (params.callbackValue === undefined)) {
+      throw new Error('Trailing stop needs exactly one of callbackRate or callbackValue');
+    }
+
+    return this.createAlgoOrder({
+      symbol: params.symbol,
+      algo_type: 'TRAILING_STOP',
+      side: params.side,
+      type: 'MARKET',
+      quantity: params.quantity,
+      callback_rate: params.callbackRate,
+      callback_value: params.callbackValue,
+      activated_price: params.activatedPrice,
+      reduce_only: params.reduceOnly,
+    });
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Failed to fetch ticker: ${response.status} ${error}`);
+  async getAlgoOrders(query: AlgoOrderQuery = {}): Promise<AlgoOrder[]> {
+    const params = new URLSearchParams();
+    if (query.symbol) params.set('symbol', query.symbol);
+    if (query.algoType) params.set('algo_type', query.algoType);
+    if (query.status) params.set('status', query.status);
+
+    const qs = params.toString();
+    const response = await this.request<{ rows: AlgoOrder[] }>('GET', `/v1/algo/orders${qs ? `?${qs}` : ''}`);
+    return response.rows || [];
+  }
+
+  async getAlgoOrderByClientOrderId(clientOrderId: string): Promise<AlgoOrder | undefined> {
+    try {
+      return await this.request<AlgoOrder>('GET', `/v1/algo/client/order/${clientOrderId}`);
+    } catch (error) {
+      if (error instanceof OrderlyApiError && error.status === 404) return undefined;
+      throw error;
     }
+  }
+
+  async cancelAlgoOrder(orderId: number | string, symbol: string): Promise<void> {
+    await this.request('DELETE', `/v1/algo/order?order_id=${orderId}&symbol=${symbol}`);
+  }
 
-    const data: any = await response.json();
-    return data.data;
+  async cancelAllAlgoOrders(symbol?: string): Promise<void> {
+    await this.request('DELETE', symbol ? `/v1/algo/orders?symbol=${symbol}` : '/v1/algo/orders');
   }
+
+  async getTrades(query: HistoryQuery = {}): Promise<Page<Trade>> {
+    return this.historyPage('/v1/trades', historyParams(query), parseTrade);
+  }
+
+  async getAllTrades(query: Omit<HistoryQuery, 'page' | 'size'> = {}): Promise<Trade[]> {
+    return this.historyAll((page) => this.getTrades({ ...query, page, size: ACCOUNT_HISTORY_PAGE_SIZE }));
+  }
+
+  async getFundingFees(query: HistoryQuery = {}): Promise<Page<FundingFee>> {
+    return this.historyPage('/v1/funding_fee/history', historyParams(query), parseFundingFee);
+  }
+
+  async getAllFundingFees(query: Omit<HistoryQuery, 'page' | 'size'> = {}): Promise<FundingFee[]> {
+    return this.historyAll((page) => this.getFundingFees({ ...query, page, size: ACCOUNT_HISTORY_PAGE_SIZE }));
+  }
+
+  // PnL settlements are account-wide; query.symbol is ignored
+  async getPnlSettlements(query: HistoryQuery = {}): Promise<Page<PnlSettlement>> {
+    const params = historyParams({ ...query, symbol: undefined });
+    return this.historyPage('/v1/pnl_settlement/history', params, parsePnlSettlement);
+  }
+
+  async getAllPnlSettlements(query: Omit<HistoryQuery, 'page' | 'size'> = {}): Promise<PnlSettlement[]> {
+    return this.historyAll((page) =>
+      this.getPnlSettlements({ ...query, page, size: ACCOUNT_HISTORY_PAGE_SIZE })
+    );
+  }
+
+  // Closed and partially closed positions with their realized PnL, newest first
+  async getPositionHistory(symbol?: string, limit = 100): Promise<PositionHistoryEntry[]> {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (symbol) params.set('symbol', symbol);
+
+    const response = await this.request<{ rows: RawPositionHistoryEntry[] }>(
+      'GET',
+      `/v1/position_history?${params}`
+    );
+    return (response.rows || []).map(parsePositionHistoryEntry);
+  }
+
+  async getAssetHistory(query: AssetHistoryQuery = {}): Promise<Page<AssetTransfer>> {
+    const params = historyParams(query);
+    if (query.token) params.set('token', query.token);
+    if (query.side) params.set('side', query.side);
+    if (query.status) params.set('status', query.status);
+
+    return this.historyPage('/v1/asset/history', params, parseAssetTransfer);
+  }
+
+  async getAllAssetHistory(query: Omit<AssetHistoryQuery, 'page' | 'size'> = {}): Promise<AssetTransfer[]> {
+    return this.historyAll((page) => this.getAssetHistory({ ...query, page, size: ACCOUNT_HISTORY_PAGE_SIZE }));
+  }
+
+  private async historyPage<R, T>(
+    path: string,
+    params: URLSearchParams,
+    parse: (raw: R) => T
+  ): Promise<Page<T>> {
+    const qs = params.toString();
+    const response = await this.request<RawPage<R>>('GET', qs ? `${path}?${qs}` : path);
+    const rows = response.rows || [];
+
+    return {
+      rows: rows.map(parse),
+      total: response.meta?.total ?? rows.length,
+      page: response.meta?.current_page ?? 1,
+      pageSize: response.meta?.records_per_page ?? rows.length,
+    };
+  }
+
+  private async historyAll<T>(fetchPage: (page: number) => Promise<Page<T>>): Promise<T[]> {
+    const rows: T[] = [];
+
+    for (let page = 1; ; page++) {
+      const result = await fetchPage(page);
+      rows.push(...result.rows);
+
+      if (result.rows.length < result.pageSize || result.rows.length === 0 || rows.length >= result.total) break;
+    }
+
+    return rows;
+  }
+
+  async getFuturesInfo(symbol: string): Promise<FuturesInfo> {
+    const response = await this.publicRequest<{ data: RawFuturesInfo }>(`/v1/public/futures/${symbol}`);
+    return parseFuturesInfo(response.data);
+  }
+
+  async getAllFuturesInfo(): Promise<FuturesInfo[]> {
+    const response = await this.publicRequest<{ data: { rows: RawFuturesInfo[] } }>('/v1/public/futures');
+    return (response.data.rows || []).map(parseFuturesInfo);
+  }
+
+  async getSymbolInfo(symbol: string): Promise<SymbolInfo> {
+    const response = await this.publicRequest<{ data: RawSymbolInfo }>(`/v1/public/info/${symbol}`);
+    return parseSymbolInfo(response.data);
+  }
+
+  async getAllSymbolInfo(): Promise<SymbolInfo[]> {
+    const response = await this.publicRequest<{ data: { rows: RawSymbolInfo[] } }>('/v1/public/info');
+    return (response.data.rows || []).map(parseSymbolInfo);
+  }
+
+  async getFundingRate(symbol: string): Promise<FundingRate> {
+    const response = await this.publicRequest<{ data: RawFundingRate }>(`/v1/public/funding_rate/${symbol}`);
+    return parseFundingRate(response.data);
+  }
+
+  // Funding rates settled in [startTime, endTime], oldest first
+  async getFundingRateHistory(
+    symbol: string,
+    startTime?: number,
+    endTime?: number
+  ): Promise<FundingRateHistoryEntry[]> {
+    const entries: FundingRateHistoryEntry[] = [];
+
+    for (let page = 1; ; page++) {
+      let path = `/v1/public/funding_rate_history?symbol=${symbol}&page=${page}&size=${FUNDING_HISTORY_PAGE_SIZE}`;
+      if (startTime !== undefined) path += `&start_t=${startTime}`;
+      if (endTime !== undefined) path += `&end_t=${endTime}`;
+
+      const response = await this.publicRequest<{
+        data: { meta: { total: number }; rows: RawFundingRateHistoryEntry[] };
+      }>(path);
+      const rows = response.data.rows || [];
+      entries.push(...rows.map(parseFundingRateHistoryEntry));
+
+      if (rows.length < FUNDING_HISTORY_PAGE_SIZE || entries.length >= response.data.meta.total) break;
+    }
+
+    return entries.sort((a, b) => a.fundingRateTime - b.fundingRateTime);
+  }
+
+  // Fetches candles in [startTime, endTime), paging through long ranges
+  async getKlines(query: KlineQuery): Promise<Candle[]> {
+    const { symbol, interval, startTime } = query;
+    const endTime = query.endTime ?? Date.now();
+    const intervalMs = KLINE_INTERVAL_MS[interval];
+    const pageMs = intervalMs * MAX_KLINES_PER_REQUEST;
+
+    const candles: Candle[] = [];
+    let lastOpenTime = -Infinity;
+
+    for (let from = startTime; from < endTime; from += pageMs) {
+      const to = Math.min(from + pageMs, endTime);
+      const path =
+        `/v1/tv/history?symbol=${symbol}&resolution=${TV_RESOLUTION[interval]}` +
+        `&from=${Math.floor(from / 1000)}&to=${Math.ceil(to / 1000)}`;
+      const response = await this.publicRequest<TvHistoryResponse>(path);
+
+      if (response.s === 'error') {
+        throw new Error(`Failed to fetch klines: ${response.errmsg ?? 'unknown error'}`);
+      }
+      if (response.s === 'no_data' || !response.t) continue;
+
+      for (let i = 0; i < response.t.length; i++) {
+        const openTime = response.t[i] * 1000;
+
+        // Page boundaries overlap by one bar; keep the range half-open
+        if (openTime <= lastOpenTime || openTime < startTime || openTime >= endTime) continue;
+
+        candles.push({
+          symbol,
+          interval,
+          openTime,
+          open: Number(response.o![i]),
+          high: Number(response.h![i]),
+          low: Number(response.l![i]),
+          close: Number(response.c![i]),
+          volume: Number(response.v![i]),
+        });
+        lastOpenTime = openTime;
+      }
+    }
+
+    return candles;
+  }
+}
+
+function historyParams(query: HistoryQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.symbol) params.set('symbol', query.symbol);
+  if (query.startTime !== undefined) params.set('start_t', String(query.startTime));
+  if (query.endTime !== undefined) params.set('end_t', String(query.endTime));
+  if (query.page !== undefined) params.set('page', String(query.page));
+  if (query.size !== undefined) params.set('size', String(query.size));
+  return params;
 }
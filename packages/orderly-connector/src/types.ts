@@ -1,9 +1,13 @@
+import type { OrderlySigner } from './auth.js';
+
 export interface OrderlyConfig {
   baseUrl: string;
   wsUrl: string;
-  accountId: string;
-  publicKey: string;
-  secretKey: string;
+  // Plain credentials, used when no signer is given
+  accountId?: string;
+  publicKey?: string;
+  secretKey?: string;
+  signer?: OrderlySigner;
 }
 
 export interface TickerData {
@@ -19,10 +23,12 @@ export interface OrderRequest {
   order_quantity: number;
   order_price?: number;
   reduce_only?: boolean;
+  client_order_id?: string;
 }
 
 export interface OrderResponse {
   order_id: string;
+  client_order_id?: string;
   status: string;
   symbol: string;
   side: string;
@@ -31,6 +37,7 @@ export interface OrderResponse {
   executed_quantity: number;
   order_price?: number;
   average_executed_price?: number;
+  total_fee?: number;
 }
 
 export interface Position {
@@ -40,6 +47,14 @@ export interface Position {
   average_open_price: number;
   unrealized_pnl: number;
   mark_price: number;
+  est_liq_price?: number;
+}
+
+// /v1/positions: the open positions and the account's margin figures
+export interface PositionsInfo {
+  rows: Position[];
+  total_collateral_value: number; // collateral including unsettled PnL at mark
+  free_collateral: number;
 }
 
 export interface AccountInfo {
@@ -51,9 +66,360 @@ export interface AccountInfo {
 }
 
 export interface WsMessage {
-  topic: string;
+  id?: string;
+  event?: string;
+  success?: boolean;
+  errorMsg?: string;
+  topic?: string;
   ts: number;
   data: any;
 }
 
 export type TickerCallback = (ticker: TickerData) => void;
+
+export type OrderBookSide = 'bid' | 'ask';
+
+// [price, quantity] as sent by Orderly
+export type RawOrderBookLevel = [number, number];
+
+export interface OrderBookLevel {
+  price: number;
+  qty: number;
+}
+
+export interface OrderBookSnapshot {
+  symbol: string;
+  ts: number;
+  bids: RawOrderBookLevel[];
+  asks: RawOrderBookLevel[];
+}
+
+export interface OrderBookUpdate extends OrderBookSnapshot {
+  prevTs: number;
+}
+
+export type PrivateTopic = 'executionreport' | 'position' | 'balance';
+
+export interface ExecutionReport {
+  symbol: string;
+  orderId: number;
+  clientOrderId: string;
+  type: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  tradeId: number;
+  executedPrice: number;
+  executedQuantity: number;
+  totalExecutedQuantity: number;
+  avgPrice: number;
+  fee: number;
+  feeAsset: string;
+  totalFee: number;
+  status: string;
+  reason: string;
+  reduceOnly: boolean;
+  maker: boolean;
+  timestamp: number;
+}
+
+export interface PositionUpdate {
+  symbol: string;
+  positionQty: number;
+  costPosition: number;
+  averageOpenPrice: number;
+  markPrice: number;
+  unsettledPnl: number;
+  estLiqPrice: number;
+  pendingLongQty: number;
+  pendingShortQty: number;
+  timestamp: number;
+}
+
+export interface BalanceUpdate {
+  token: string;
+  holding: number;
+  frozen: number;
+  pendingShortQty: number;
+  pendingLongQty: number;
+  version: number;
+}
+
+export type ExecutionReportCallback = (report: ExecutionReport) => void;
+export type PositionCallback = (positions: PositionUpdate[]) => void;
+export type BalanceCallback = (balances: BalanceUpdate[]) => void;
+
+export type ConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'authenticated'
+  | 'reconnecting'
+  | 'closed';
+
+export interface OrderlyWsEvents {
+  message: (msg: WsMessage) => void;
+  error: (error: Error) => void;
+  state: (state: ConnectionState, previous: ConnectionState) => void;
+  reconnecting: (attempt: number, delayMs: number) => void;
+  authenticated: () => void;
+  authFailed: (reason: string) => void;
+  subscriptionFailed: (topic: string, reason: string) => void;
+  executionReport: ExecutionReportCallback;
+  position: PositionCallback;
+  balance: BalanceCallback;
+}
+
+export type KlineInterval = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '12h' | '1d' | '1w';
+
+export interface KlineQuery {
+  symbol: string;
+  interval: KlineInterval;
+  startTime: number; // ms, inclusive
+  endTime?: number; // ms, exclusive (defaults to now)
+}
+
+export interface Candle {
+  symbol: string;
+  interval: KlineInterval;
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface FuturesInfo {
+  symbol: string;
+  markPrice: number;
+  indexPrice: number;
+  lastPrice: number;
+  open24h: number;
+  high24h: number;
+  low24h: number;
+  volume24h: number;
+  amount24h: number;
+  openInterest: number;
+  estFundingRate: number;
+  lastFundingRate: number;
+  nextFundingTime: number;
+  sumUnitaryFunding: number;
+}
+
+export interface SymbolInfo {
+  symbol: string;
+  baseTick: number; // quantity step
+  quoteTick: number; // price step
+  baseMin: number;
+  baseMax: number;
+  quoteMin: number;
+  quoteMax: number;
+  minNotional: number;
+  priceRange: number;
+  baseImr: number;
+  baseMmr: number;
+  imrFactor: number;
+  maxLeverage: number;
+  fundingPeriodHours: number;
+  capFunding: number;
+  floorFunding: number;
+}
+
+export interface FundingRate {
+  symbol: string;
+  estFundingRate: number;
+  estFundingRateTime: number;
+  lastFundingRate: number;
+  lastFundingRateTime: number;
+  nextFundingTime: number;
+  sumUnitaryFunding: number;
+}
+
+export interface FundingRateHistoryEntry {
+  symbol: string;
+  fundingRate: number;
+  fundingRateTime: number;
+  nextFundingTime: number;
+}
+
+export type AlgoType = 'STOP' | 'TP_SL' | 'POSITIONAL_TP_SL' | 'TRAILING_STOP';
+
+export interface AlgoChildOrder {
+  symbol: string;
+  algo_type: 'TAKE_PROFIT' | 'STOP_LOSS';
+  side: 'BUY' | 'SELL';
+  type: 'MARKET' | 'LIMIT';
+  trigger_price: number;
+  price?: number;
+  reduce_only?: boolean;
+}
+
+export interface AlgoOrderRequest {
+  symbol: string;
+  algo_type: AlgoType;
+  side?: 'BUY' | 'SELL';
+  type?: 'MARKET' | 'LIMIT';
+  quantity?: number;
+  price?: number;
+  trigger_price?: number;
+  trigger_price_type?: 'MARK_PRICE';
+  reduce_only?: boolean;
+  client_order_id?: string;
+  callback_rate?: number; // trailing distance as a fraction, 0.01 = 1%
+  callback_value?: number; // trailing distance in quote currency
+  activated_price?: number;
+  child_orders?: AlgoChildOrder[];
+}
+
+export interface AlgoOrderCreated {
+  order_id: number;
+  client_order_id?: string;
+  algo_type: string;
+  quantity: number;
+}
+
+export interface AlgoOrder {
+  algo_order_id: number;
+  client_order_id?: string;
+  root_algo_order_id?: number;
+  parent_algo_order_id?: number;
+  algo_type: string;
+  symbol: string;
+  side: string;
+  type: string;
+  quantity: number;
+  price?: number;
+  trigger_price?: number;
+  trigger_price_type?: string;
+  callback_rate?: number;
+  callback_value?: number;
+  activated_price?: number;
+  is_activated?: boolean;
+  reduce_only: boolean;
+  algo_status: string;
+  executed_quantity?: number;
+  average_executed_price?: number;
+  child_orders?: AlgoOrder[];
+  created_time: number;
+  updated_time: number;
+}
+
+export interface AlgoOrderQuery {
+  symbol?: string;
+  algoType?: AlgoType;
+  status?: 'INCOMPLETE' | 'COMPLETED';
+}
+
+export interface StopOrderParams {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  triggerPrice: number;
+  limitPrice?: number; // omit for a stop-market order
+  reduceOnly?: boolean;
+}
+
+export interface TpSlParams {
+  symbol: string;
+  side: 'BUY' | 'SELL'; // side that closes the position
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
+  quantity?: number; // omit to protect the whole position
+}
+
+export interface TrailingStopParams {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  callbackRate?: number;
+  callbackValue?: number;
+  activatedPrice?: number;
+  reduceOnly?: boolean;
+}
+
+export interface HistoryQuery {
+  symbol?: string;
+  startTime?: number; // ms
+  endTime?: number; // ms
+  page?: number; // 1-based
+  size?: number;
+}
+
+export interface Page<T> {
+  rows: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface Trade {
+  id: number;
+  symbol: string;
+  orderId: number;
+  side: 'BUY' | 'SELL';
+  price: number;
+  qty: number;
+  fee: number;
+  feeAsset: string;
+  isMaker: boolean;
+  realizedPnl: number;
+  timestamp: number;
+}
+
+export interface FundingFee {
+  id: number;
+  symbol: string;
+  fundingRate: number;
+  markPrice: number;
+  fundingFee: number; // positive = paid, negative = received
+  paymentType: 'Pay' | 'Receive';
+  status: string;
+  timestamp: number;
+}
+
+export interface PnlSettlement {
+  id: number;
+  asset: string;
+  amount: number;
+  status: string;
+  timestamp: number;
+}
+
+export interface PositionHistoryEntry {
+  positionId: number;
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  status: string;
+  avgOpenPrice: number;
+  avgClosePrice: number;
+  maxPositionQty: number;
+  closedPositionQty: number;
+  realizedPnl: number;
+  tradingFee: number;
+  accumulatedFundingFee: number;
+  liquidatorFee: number;
+  insuranceFundFee: number;
+  openTime: number;
+  closeTime?: number;
+  updatedTime: number;
+}
+
+export interface AssetHistoryQuery extends Omit<HistoryQuery, 'symbol'> {
+  token?: string;
+  side?: 'DEPOSIT' | 'WITHDRAW';
+  status?: string;
+}
+
+export interface AssetTransfer {
+  id: string;
+  txId: string;
+  side: 'DEPOSIT' | 'WITHDRAW';
+  token: string;
+  amount: number;
+  fee: number;
+  status: string;
+  chainId: string;
+  createdTime: number;
+  updatedTime: number;
+}
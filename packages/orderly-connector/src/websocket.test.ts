@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { OrderlyWebSocketClient } from './websocket.js';
+
+const SYMBOL = 'PERP_ETH_USDC';
+
+// A bare server that acknowledges subscriptions and leaves snapshot requests
+// to each test
+async function startServer(): Promise<{ server: WebSocketServer; url: string; requests: string[]; socket: () => WebSocket }> {
+  const server = new WebSocketServer({ port: 0 });
+  await new Promise<void>((resolve) => server.once('listening', resolve));
+
+  const requests: string[] = [];
+  let current: WebSocket | undefined;
+  server.on('connection', (socket) => {
+    current = socket;
+    socket.on('message', (raw) => {
+      const msg = JSON.parse(raw.toString());
+      if (msg.event === 'subscribe') {
+        socket.send(JSON.stringify({ id: msg.id, event: 'subscribe', success: true, data: msg.topic }));
+      } else if (msg.event === 'request') {
+        requests.push(msg.id);
+      }
+    });
+  });
+
+  const { port } = server.address() as { port: number };
+  return { server, url: `ws://127.0.0.1:${port}`, requests, socket: () => current! };
+}
+
+function sendSnapshot(socket: WebSocket, id: string, ts: number): void {
+  socket.send(JSON.stringify({
+    id,
+    event: 'request',
+    success: true,
+    data: { symbol: SYMBOL, ts, bids: [[100, 1]], asks: [[101, 1]] },
+  }));
+}
+
+function sendUpdate(socket: WebSocket, ts: number): void {
+  socket.send(JSON.stringify({
+    topic: `${SYMBOL}@orderbookupdate`,
+    data: { symbol: SYMBOL, ts, prevTs: ts - 1, bids: [], asks: [] },
+  }));
+}
+
+describe('OrderlyWebSocketClient order book sync', () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let client: OrderlyWebSocketClient;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    server = await startServer();
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await new Promise((resolve) => server.server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  it('requests the snapshot again when it does not arrive', async () => {
+    client = new OrderlyWebSocketClient(
+      { baseUrl: '', wsUrl: server.url, accountId: 'test' },
+      { snapshotTimeoutMs: 50 }
+    );
+    await client.connect();
+    const book = client.subscribeOrderbook(SYMBOL);
+
+    // The first request is lost
+    await vi.waitFor(() => expect(server.requests).toHaveLength(2));
+    sendSnapshot(server.socket(), server.requests[1], 10);
+
+    await vi.waitFor(() => expect(book.isSynced()).toBe(true));
+    expect(book.bestBid()).toEqual({ price: 100, qty: 1 });
+  });
+
+  it('requests a new snapshot when the buffered updates overflow', async () => {
+    client = new OrderlyWebSocketClient(
+      { baseUrl: '', wsUrl: server.url, accountId: 'test' },
+      { snapshotTimeoutMs: 60_000 }
+    );
+    await client.connect();
+    const book = client.subscribeOrderbook(SYMBOL);
+    await vi.waitFor(() => expect(server.requests).toHaveLength(1));
+
+    // One more than LocalOrderBook buffers by default
+    for (let ts = 1; ts <= 1001; ts++) {
+      sendUpdate(server.socket(), ts);
+    }
+
+    await vi.waitFor(() => expect(server.requests).toHaveLength(2));
+    sendSnapshot(server.socket(), server.requests[1], 1001);
+    await vi.waitFor(() => expect(book.isSynced()).toBe(true));
+    expect(book.getLastUpdateTs()).toBe(1001);
+  });
+});
@@ -1,51 +1,93 @@
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
-import crypto from 'crypto';
-import * as ed from '@noble/ed25519';
-import type { OrderlyConfig, TickerData, WsMessage, TickerCallback } from './types.js';
+import { signerFromConfig, type OrderlySigner } from './auth.js';
+import { LocalOrderBook, type OrderBookCallback } from './orderbook.js';
+import type {
+  OrderlyConfig,
+  TickerData,
+  WsMessage,
+  TickerCallback,
+  OrderBookSnapshot,
+  OrderBookUpdate,
+  OrderlyWsEvents,
+  PrivateTopic,
+  ExecutionReportCallback,
+  PositionCallback,
+  BalanceCallback,
+  BalanceUpdate,
+  ConnectionState,
+} from './types.js';
+
+export interface OrderlyWebSocketClient {
+  on<E extends keyof OrderlyWsEvents>(event: E, listener: OrderlyWsEvents[E]): this;
+  once<E extends keyof OrderlyWsEvents>(event: E, listener: OrderlyWsEvents[E]): this;
+  off<E extends keyof OrderlyWsEvents>(event: E, listener: OrderlyWsEvents[E]): this;
+  emit<E extends keyof OrderlyWsEvents>(event: E, ...args: Parameters<OrderlyWsEvents[E]>): boolean;
+}
 
-// Setup sha512 for ed25519
-ed.etc.sha512Sync = (...m) => crypto.createHash('sha512').update(Buffer.concat(m)).digest();
+export interface OrderlyWsOptions {
+  reconnectBaseDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  pingIntervalMs?: number;
+  pongTimeoutMs?: number; // drop the connection after this long without any message
+  authTimeoutMs?: number;
+  ackTimeoutMs?: number;
+  snapshotTimeoutMs?: number; // ask again for an order book snapshot not received by then
+}
 
 export class OrderlyWebSocketClient extends EventEmitter {
   private ws: WebSocket | null = null;
   private reconnectTimer: NodeJS.Timeout | null = null;
   private pingTimer: NodeJS.Timeout | null = null;
-  private subscribedSymbols = new Set<string>();
+  private subscribedTopics = new Set<string>();
   private tickerCallbacks = new Map<string, Set<TickerCallback>>();
+  private orderBooks = new Map<string, LocalOrderBook>();
+  private orderBookCallbacks = new Map<string, Set<OrderBookCallback>>();
+  private privateTopics = new Set<PrivateTopic>();
   private authenticated = false;
 
-  constructor(private config: OrderlyConfig) {
+  private state: ConnectionState = 'idle';
+  private closedByUser = false;
+  private reconnectAttempt = 0;
+  private lastMessageAt = 0;
+  private pendingAcks = new Map<string, { topic: string; timer: NodeJS.Timeout }>();
+  private pendingSnapshots = new Map<string, NodeJS.Timeout>();
+  private pendingAuth: {
+    resolve: () => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+  } | null = null;
+
+  private reconnectBaseDelayMs: number;
+  private reconnectMaxDelayMs: number;
+  private pingIntervalMs: number;
+  private pongTimeoutMs: number;
+  private authTimeoutMs: number;
+  private ackTimeoutMs: number;
+  private snapshotTimeoutMs: number;
+  private signer?: OrderlySigner;
+
+  constructor(private config: OrderlyConfig, options: OrderlyWsOptions = {}) {
     super();
+    this.signer = signerFromConfig(config);
+    this.reconnectBaseDelayMs = options.reconnectBaseDelayMs ?? 1000;
+    this.reconnectMaxDelayMs = options.reconnectMaxDelayMs ?? 30000;
+    this.pingIntervalMs = options.pingIntervalMs ?? 10000;
+    this.pongTimeoutMs = options.pongTimeoutMs ?? 30000;
+    this.authTimeoutMs = options.authTimeoutMs ?? 10000;
+    this.ackTimeoutMs = options.ackTimeoutMs ?? 10000;
+    this.snapshotTimeoutMs = options.snapshotTimeoutMs ?? 10000;
   }
 
-  private fromBase64Url(str: string): Uint8Array {
-    const b64 = str.replace(/-/g, '+').replace(/_/g, '/');
-    const pad = (4 - (b64.length % 4)) % 4;
-    return Uint8Array.from(Buffer.from(b64 + '='.repeat(pad), 'base64'));
-  }
-
-  private toBase64Url(bytes: Uint8Array): string {
-    const b64 = Buffer.from(bytes).toString('base64');
-    return b64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '');
-  }
-
-  private async signAuth(timestamp: number): Promise<string> {
-    const message = timestamp.toString();
-    const secretKey = this.fromBase64Url(this.config.secretKey);
-    const signature = await ed.sign(new TextEncoder().encode(message), secretKey);
-    return this.toBase64Url(signature);
-  }
-
-  private async sendAuth(): Promise<void> {
+  private async sendAuth(signer: OrderlySigner): Promise<void> {
     const timestamp = Date.now();
-    const signature = await this.signAuth(timestamp);
+    const signature = await signer.sign(timestamp.toString());
 
     const authMsg = {
       id: `auth_${timestamp}`,
       event: 'auth',
       params: {
-        orderly_key: `ed25519:${this.config.publicKey}`,
+        orderly_key: signer.orderlyKey,
         sign: signature,
         timestamp,
       },
@@ -55,45 +97,120 @@ export class OrderlyWebSocketClient extends EventEmitter {
     this.ws?.send(JSON.stringify(authMsg));
   }
 
+  // Resolves once the socket is open and, when a key is configured, auth is
+  // acknowledged. Later drops reconnect automatically with backoff.
   connect(): Promise<void> {
+    this.closedByUser = false;
+    return this.open();
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  private open(): Promise<void> {
     return new Promise((resolve, reject) => {
+      let settled = false;
+      const settle = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        if (error) reject(error);
+        else resolve();
+      };
+
+      if (this.state !== 'reconnecting') {
+        this.setState('connecting');
+      }
+
+      let ws: WebSocket;
       try {
-        this.ws = new WebSocket(this.config.wsUrl);
+        ws = new WebSocket(this.config.wsUrl);
+      } catch (error) {
+        settle(error as Error);
+        return;
+      }
+      this.ws = ws;
+
+      ws.on('open', async () => {
+        console.log('[Orderly WS] Connected');
+        this.lastMessageAt = Date.now();
+        this.setState('open');
+        this.startHeartbeat();
 
-        this.ws.on('open', async () => {
-          console.log('[Orderly WS] Connected');
+        // Re-subscribe to all public topics
+        for (const topic of this.subscribedTopics) {
+          this.sendSubscribe(topic);
+        }
 
-          // Send auth first
-          await this.sendAuth();
+        // Local books missed updates while disconnected
+        for (const book of this.orderBooks.values()) {
+          book.reset();
+          this.requestOrderBookSnapshot(book.symbol);
+        }
 
-          this.startPingInterval();
+        // Public-only connections have no key to authenticate with
+        if (!this.signer) {
+          this.reconnectAttempt = 0;
+          settle();
+          return;
+        }
 
-          // Re-subscribe to all symbols
-          for (const symbol of this.subscribedSymbols) {
-            this.sendSubscribe(symbol);
-          }
+        try {
+          await this.authenticate(this.signer);
+          this.reconnectAttempt = 0;
+          settle();
+        } catch (error) {
+          settle(error as Error);
+        }
+      });
 
-          resolve();
-        });
+      ws.on('message', (data: Buffer) => {
+        this.lastMessageAt = Date.now();
+        console.log('[Orderly WS] Raw message:', data.toString().substring(0, 500));
+        this.handleMessage(data.toString());
+      });
 
-        this.ws.on('message', (data: Buffer) => {
-          console.log('[Orderly WS] Raw message:', data.toString().substring(0, 500));
-          this.handleMessage(data.toString());
-        });
+      ws.on('error', (error) => {
+        console.error('[Orderly WS] Error:', error.message);
+        this.emitError(error);
+        settle(error);
+      });
 
-        this.ws.on('error', (error) => {
-          console.error('[Orderly WS] Error:', error);
-          this.emit('error', error);
-        });
+      ws.on('close', (code, reason) => {
+        if (this.ws !== ws) return;
 
-        this.ws.on('close', (code, reason) => {
-          console.log(`[Orderly WS] Disconnected - Code: ${code}, Reason: ${reason.toString()}`);
-          this.stopPingInterval();
+        console.log(`[Orderly WS] Disconnected - Code: ${code}, Reason: ${reason.toString()}`);
+        this.ws = null;
+        this.authenticated = false;
+        this.stopHeartbeat();
+        this.clearPending(new Error(`Connection closed (${code})`));
+        settle(new Error(`Connection closed before ready (${code})`));
+
+        if (this.closedByUser) {
+          this.setState('closed');
+        } else {
           this.scheduleReconnect();
-        });
-      } catch (error) {
+        }
+      });
+    });
+  }
+
+  private authenticate(signer: OrderlySigner): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingAuth = null;
+        this.emit('authFailed', 'timed out waiting for auth acknowledgement');
+        reject(new Error('Orderly WebSocket auth timed out'));
+        // Treat a silent server as a dead connection
+        this.ws?.terminate();
+      }, this.authTimeoutMs);
+
+      this.pendingAuth = { resolve, reject, timer };
+      this.sendAuth(signer).catch((error) => {
+        clearTimeout(timer);
+        this.pendingAuth = null;
         reject(error);
-      }
+      });
     });
   }
 
@@ -102,11 +219,7 @@ export class OrderlyWebSocketClient extends EventEmitter {
       this.tickerCallbacks.set(symbol, new Set());
     }
     this.tickerCallbacks.get(symbol)!.add(callback);
-
-    if (!this.subscribedSymbols.has(symbol)) {
-      this.subscribedSymbols.add(symbol);
-      this.sendSubscribe(symbol);
-    }
+    this.addTopic(`${symbol}@ticker`);
   }
 
   unsubscribeTicker(symbol: string, callback?: TickerCallback): void {
@@ -120,32 +233,267 @@ export class OrderlyWebSocketClient extends EventEmitter {
     }
 
     if (!this.tickerCallbacks.has(symbol)) {
-      this.subscribedSymbols.delete(symbol);
-      this.sendUnsubscribe(symbol);
+      this.removeTopic(`${symbol}@ticker`);
     }
   }
 
-  private sendSubscribe(symbol: string): void {
+  subscribeOrderbook(symbol: string, callback?: OrderBookCallback): LocalOrderBook {
+    let book = this.orderBooks.get(symbol);
+    if (!book) {
+      book = new LocalOrderBook(symbol);
+      this.orderBooks.set(symbol, book);
+      this.orderBookCallbacks.set(symbol, new Set());
+      this.addTopic(`${symbol}@orderbookupdate`);
+      this.requestOrderBookSnapshot(symbol);
+    }
+
+    if (callback) {
+      this.orderBookCallbacks.get(symbol)!.add(callback);
+    }
+
+    return book;
+  }
+
+  unsubscribeOrderbook(symbol: string, callback?: OrderBookCallback): void {
+    const callbacks = this.orderBookCallbacks.get(symbol);
+    if (callback && callbacks) {
+      callbacks.delete(callback);
+      if (callbacks.size > 0) return;
+    }
+
+    this.orderBooks.delete(symbol);
+    this.orderBookCallbacks.delete(symbol);
+    this.clearSnapshotTimer(symbol);
+    this.removeTopic(`${symbol}@orderbookupdate`);
+  }
+
+  getOrderBook(symbol: string): LocalOrderBook | undefined {
+    return this.orderBooks.get(symbol);
+  }
+
+  subscribeExecutionReports(callback: ExecutionReportCallback): void {
+    this.on('executionReport', callback);
+    this.addPrivateTopic('executionreport');
+  }
+
+  unsubscribeExecutionReports(callback: ExecutionReportCallback): void {
+    this.off('executionReport', callback);
+    if (this.listenerCount('executionReport') === 0) {
+      this.removePrivateTopic('executionreport');
+    }
+  }
+
+  subscribePositions(callback: PositionCallback): void {
+    this.on('position', callback);
+    this.addPrivateTopic('position');
+  }
+
+  unsubscribePositions(callback: PositionCallback): void {
+    this.off('position', callback);
+    if (this.listenerCount('position') === 0) {
+      this.removePrivateTopic('position');
+    }
+  }
+
+  subscribeBalances(callback: BalanceCallback): void {
+    this.on('balance', callback);
+    this.addPrivateTopic('balance');
+  }
+
+  unsubscribeBalances(callback: BalanceCallback): void {
+    this.off('balance', callback);
+    if (this.listenerCount('balance') === 0) {
+      this.removePrivateTopic('balance');
+    }
+  }
+
+  isAuthenticated(): boolean {
+    return this.authenticated;
+  }
+
+  // Private topics can only be subscribed once auth is confirmed
+  private addPrivateTopic(topic: PrivateTopic): void {
+    if (this.privateTopics.has(topic)) return;
+
+    this.privateTopics.add(topic);
+    if (this.authenticated) {
+      this.sendSubscribe(topic);
+    }
+  }
+
+  private removePrivateTopic(topic: PrivateTopic): void {
+    if (this.privateTopics.delete(topic)) {
+      this.sendUnsubscribe(topic);
+    }
+  }
+
+  private handleAuthResponse(msg: WsMessage): void {
+    const pending = this.pendingAuth;
+    this.pendingAuth = null;
+    if (pending) clearTimeout(pending.timer);
+
+    if (!msg.success) {
+      const reason = msg.errorMsg ?? 'auth rejected';
+      console.error('[Orderly WS] Auth failed:', reason);
+      this.emit('authFailed', reason);
+
+      // Bad credentials won't fix themselves; stop reconnecting
+      this.closedByUser = true;
+      pending?.reject(new Error(`Orderly WebSocket auth failed: ${reason}`));
+      this.ws?.close();
+      return;
+    }
+
+    console.log('[Orderly WS] Authenticated');
+    this.authenticated = true;
+    this.setState('authenticated');
+    this.emit('authenticated');
+
+    for (const topic of this.privateTopics) {
+      this.sendSubscribe(topic);
+    }
+
+    pending?.resolve();
+  }
+
+  private handleAck(msg: WsMessage): void {
+    const pending = msg.id ? this.pendingAcks.get(msg.id) : undefined;
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingAcks.delete(msg.id!);
+
+    if (!msg.success) {
+      const reason = msg.errorMsg ?? 'subscription rejected';
+      console.error(`[Orderly WS] Subscription to ${pending.topic} failed: ${reason}`);
+      this.emit('subscriptionFailed', pending.topic, reason);
+    }
+  }
+
+  private handlePrivateMessage(msg: WsMessage): void {
+    switch (msg.topic) {
+      case 'executionreport':
+        this.emit('executionReport', msg.data);
+        break;
+      case 'position':
+        this.emit('position', msg.data?.positions ?? []);
+        break;
+      case 'balance': {
+        const balances: BalanceUpdate[] = Object.entries(msg.data?.balances ?? {}).map(
+          ([token, balance]) => ({ token, ...(balance as Omit<BalanceUpdate, 'token'>) })
+        );
+        this.emit('balance', balances);
+        break;
+      }
+    }
+  }
+
+  private addTopic(topic: string): void {
+    if (!this.subscribedTopics.has(topic)) {
+      this.subscribedTopics.add(topic);
+      this.sendSubscribe(topic);
+    }
+  }
+
+  private removeTopic(topic: string): void {
+    if (this.subscribedTopics.delete(topic)) {
+      this.sendUnsubscribe(topic);
+    }
+  }
+
+  private sendSubscribe(topic: string): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      const id = `sub_${topic}_${Date.now()}`;
+      const timer = setTimeout(() => {
+        this.pendingAcks.delete(id);
+        console.error(`[Orderly WS] No acknowledgement for ${topic}`);
+        this.emit('subscriptionFailed', topic, 'timed out waiting for acknowledgement');
+      }, this.ackTimeoutMs);
+      this.pendingAcks.set(id, { topic, timer });
+
+      this.ws.send(JSON.stringify({ id, event: 'subscribe', topic }));
+      console.log(`[Orderly WS] Subscribing to ${topic}`);
+    }
+  }
+
+  private sendUnsubscribe(topic: string): void {
     if (this.ws?.readyState === WebSocket.OPEN) {
       const msg = {
-        id: `sub_${symbol}_${Date.now()}`,
-        event: 'subscribe',
-        topic: `${symbol}@ticker`,
+        id: `unsub_${topic}_${Date.now()}`,
+        event: 'unsubscribe',
+        topic,
       };
       this.ws.send(JSON.stringify(msg));
-      console.log(`[Orderly WS] Subscribing to ${symbol}@ticker`);
+      console.log(`[Orderly WS] Unsubscribed from ${topic}`);
     }
   }
 
-  private sendUnsubscribe(symbol: string): void {
+  private requestOrderBookSnapshot(symbol: string): void {
     if (this.ws?.readyState === WebSocket.OPEN) {
       const msg = {
-        id: `unsub_${symbol}_${Date.now()}`,
-        event: 'unsubscribe',
-        topic: `${symbol}@ticker`,
+        id: `book_${symbol}_${Date.now()}`,
+        event: 'request',
+        params: { type: 'orderbook', symbol },
       };
+
+      // Requests are not acknowledged, so a lost one is only noticed by its timeout
+      this.clearSnapshotTimer(symbol);
+      this.pendingSnapshots.set(symbol, setTimeout(() => {
+        this.pendingSnapshots.delete(symbol);
+        if (!this.orderBooks.get(symbol)?.isSynced()) {
+          console.error(`[Orderly WS] No order book snapshot for ${symbol}, requesting again`);
+          this.requestOrderBookSnapshot(symbol);
+        }
+      }, this.snapshotTimeoutMs));
+
       this.ws.send(JSON.stringify(msg));
-      console.log(`[Orderly WS] Unsubscribed from ${symbol}`);
+    }
+  }
+
+  private clearSnapshotTimer(symbol: string): void {
+    const timer = this.pendingSnapshots.get(symbol);
+    if (timer) {
+      clearTimeout(timer);
+      this.pendingSnapshots.delete(symbol);
+    }
+  }
+
+  private handleOrderBookSnapshot(snapshot: OrderBookSnapshot): void {
+    this.clearSnapshotTimer(snapshot.symbol);
+    const book = this.orderBooks.get(snapshot.symbol);
+    if (!book) return;
+
+    if (!book.applySnapshot(snapshot)) {
+      console.log(`[Orderly WS] Order book gap for ${snapshot.symbol}, resyncing`);
+      this.requestOrderBookSnapshot(snapshot.symbol);
+      return;
+    }
+
+    this.notifyOrderBook(book);
+  }
+
+  private handleOrderBookUpdate(update: OrderBookUpdate): void {
+    const book = this.orderBooks.get(update.symbol);
+    if (!book) return;
+
+    if (!book.applyUpdate(update)) {
+      console.log(`[Orderly WS] Order book for ${update.symbol} out of sync, resyncing`);
+      this.requestOrderBookSnapshot(update.symbol);
+      return;
+    }
+
+    if (book.isSynced()) {
+      this.notifyOrderBook(book);
+    }
+  }
+
+  private notifyOrderBook(book: LocalOrderBook): void {
+    for (const callback of this.orderBookCallbacks.get(book.symbol) ?? []) {
+      try {
+        callback(book);
+      } catch (err) {
+        console.error('[Orderly WS] Callback error:', err);
+      }
     }
   }
 
@@ -154,11 +502,38 @@ export class OrderlyWebSocketClient extends EventEmitter {
       const msg: WsMessage = JSON.parse(data);
       console.log('[Orderly WS] Received:', JSON.stringify(msg).substring(0, 200));
 
-      // Handle ping/pong
-      if (msg.topic === 'pong') {
+      // Answer server pings; any inbound message already counts as a heartbeat
+      if (msg.event === 'ping') {
+        this.ws?.send(JSON.stringify({ event: 'pong', ts: Date.now() }));
+        return;
+      }
+      if (msg.event === 'pong') {
+        return;
+      }
+
+      if (msg.event === 'subscribe') {
+        this.handleAck(msg);
+        return;
+      }
+
+      if (msg.event === 'auth') {
+        this.handleAuthResponse(msg);
         return;
       }
 
+      if (msg.topic === 'executionreport' || msg.topic === 'position' || msg.topic === 'balance') {
+        this.handlePrivateMessage(msg);
+      }
+
+      // Handle order book snapshot responses and incremental updates
+      if (msg.event === 'request' && msg.success && msg.data?.bids) {
+        // Snapshot responses may omit the symbol; it is encoded in the request id
+        const symbol = msg.data.symbol ?? msg.id?.replace(/^book_/, '').replace(/_\d+$/, '');
+        this.handleOrderBookSnapshot({ ...msg.data, symbol });
+      } else if (msg.topic?.endsWith('@orderbookupdate') && msg.data) {
+        this.handleOrderBookUpdate(msg.data);
+      }
+
       // Handle ticker/trade updates
       if (msg.topic?.includes('@ticker') || msg.topic?.includes('@trade')) {
         const symbol = msg.topic.split('@')[0];
@@ -196,15 +571,24 @@ export class OrderlyWebSocketClient extends EventEmitter {
     }
   }
 
-  private startPingInterval(): void {
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
     this.pingTimer = setInterval(() => {
-      if (this.ws?.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify({ event: 'ping' }));
+      if (this.ws?.readyState !== WebSocket.OPEN) return;
+
+      const silentMs = Date.now() - this.lastMessageAt;
+      if (silentMs > this.pongTimeoutMs) {
+        console.error(`[Orderly WS] No messages for ${silentMs}ms, dropping connection`);
+        this.ws.terminate();
+        return;
       }
-    }, 30000); // Ping every 30s
+
+      this.ws.send(JSON.stringify({ event: 'ping' }));
+    }, this.pingIntervalMs);
   }
 
-  private stopPingInterval(): void {
+  private stopHeartbeat(): void {
     if (this.pingTimer) {
       clearInterval(this.pingTimer);
       this.pingTimer = null;
@@ -214,17 +598,60 @@ export class OrderlyWebSocketClient extends EventEmitter {
   private scheduleReconnect(): void {
     if (this.reconnectTimer) return;
 
+    // Exponential backoff with jitter, capped
+    const exp = Math.min(this.reconnectMaxDelayMs, this.reconnectBaseDelayMs * 2 ** this.reconnectAttempt);
+    const delay = Math.round(exp / 2 + (Math.random() * exp) / 2);
+    this.reconnectAttempt++;
+
+    this.setState('reconnecting');
+    this.emit('reconnecting', this.reconnectAttempt, delay);
+    console.log(`[Orderly WS] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempt})`);
+
     this.reconnectTimer = setTimeout(() => {
-      console.log('[Orderly WS] Reconnecting...');
       this.reconnectTimer = null;
-      this.connect().catch((err) => {
-        console.error('[Orderly WS] Reconnect failed:', err);
+      this.open().catch((err) => {
+        console.error('[Orderly WS] Reconnect failed:', err.message);
       });
-    }, 5000); // Reconnect after 5s
+    }, delay);
+  }
+
+  private clearPending(error: Error): void {
+    for (const { timer } of this.pendingAcks.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingAcks.clear();
+
+    // Books are resynced when the connection reopens
+    for (const timer of this.pendingSnapshots.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingSnapshots.clear();
+
+    if (this.pendingAuth) {
+      clearTimeout(this.pendingAuth.timer);
+      this.pendingAuth.reject(error);
+      this.pendingAuth = null;
+    }
+  }
+
+  private setState(state: ConnectionState): void {
+    if (state === this.state) return;
+
+    const previous = this.state;
+    this.state = state;
+    this.emit('state', state, previous);
+  }
+
+  // 'error' without listeners would throw; the client recovers on its own
+  private emitError(error: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
   }
 
   disconnect(): void {
-    this.stopPingInterval();
+    this.closedByUser = true;
+    this.stopHeartbeat();
 
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
@@ -233,7 +660,8 @@ export class OrderlyWebSocketClient extends EventEmitter {
 
     if (this.ws) {
       this.ws.close();
-      this.ws = null;
+    } else {
+      this.setState('closed');
     }
   }
 
@@ -0,0 +1,149 @@
+// End-to-end run of the connector and OrderlyExecutor against the simulator:
+// market data, order placement and fills, positions, the WebSocket order book
+// and private topics. Exits non-zero on the first failed check.
+import assert from 'assert/strict';
+import {
+  OrderlyRestClient,
+  OrderlyWebSocketClient,
+  generateKeyPair,
+  type BalanceUpdate,
+  type ExecutionReport,
+  type PositionUpdate,
+} from '@aadenman/orderly-connector';
+import { OrderlyExecutor, type Position } from '@aadenman/execution';
+import { OrderlySimulator } from '../src/index.js';
+
+const SYMBOL = 'PERP_ETH_USDC';
+
+async function main(): Promise<void> {
+  const keys = generateKeyPair();
+  const sim = new OrderlySimulator({
+    symbols: { [SYMBOL]: { prices: [2000, 2010, 2020, 1990, 1980], quoteTick: 0.01, fundingRate: 0.0001 } },
+    accounts: [{ accountId: 'e2e', publicKey: keys.publicKey, collateral: 10_000 }],
+    matching: { takerFee: 0.0005, makerFee: 0.0002 },
+  });
+  const { baseUrl, wsUrl } = await sim.start();
+  const config = { baseUrl, wsUrl, accountId: 'e2e', publicKey: keys.publicKey, secretKey: keys.secretKey };
+
+  const rest = new OrderlyRestClient(config, { maxRetries: 0 });
+  const ws = new OrderlyWebSocketClient(config, { reconnectBaseDelayMs: 100 });
+
+  try {
+    await check('public market data', async () => {
+      const info = await rest.getSymbolInfo(SYMBOL);
+      assert.equal(info.quoteTick, 0.01);
+      assert.equal((await rest.getFuturesInfo(SYMBOL)).markPrice, 2000);
+      assert.equal((await rest.getFundingRate(SYMBOL)).estFundingRate, 0.0001);
+
+      const now = Date.now();
+      const history = await rest.getFundingRateHistory(SYMBOL, now - 24 * 60 * 60 * 1000, now);
+      assert.ok(history.length >= 3, `expected a day of settlements, got ${history.length}`);
+      assert.ok(history.every((e) => e.fundingRate === 0.0001));
+    });
+
+    const reports: ExecutionReport[] = [];
+    const positions: PositionUpdate[][] = [];
+    const balances: BalanceUpdate[][] = [];
+
+    await check('WebSocket auth and private topics', async () => {
+      await ws.connect();
+      assert.ok(ws.isAuthenticated());
+      ws.subscribeExecutionReports((report) => reports.push(report));
+      ws.subscribePositions((update) => positions.push(update));
+      ws.subscribeBalances((update) => balances.push(update));
+      await delay(100);
+    });
+
+    const book = ws.subscribeOrderbook(SYMBOL);
+    await check('order book snapshot', async () => {
+      await waitFor(() => book.isSynced());
+      assert.ok(book.bestBid()!.price < 2000 && book.bestAsk()!.price > 2000);
+    });
+
+    const executor = new OrderlyExecutor({ client: rest, pollIntervalMs: 20, fillTimeoutMs: 2000 });
+    let position: Position = { symbol: SYMBOL, qty: 0, avgPrice: 0, side: 'NONE' };
+
+    await check('market order through OrderlyExecutor', async () => {
+      const result = await executor.execute('BUY', 0.5, { symbol: SYMBOL, currentPrice: 2000, position, cash: 10_000, equity: 10_000 });
+      assert.ok(result.success, result.error);
+      assert.equal(result.qty, 0.5);
+      assert.equal(result.position.qty, 0.5);
+      assert.ok(result.fee! > 0);
+      assert.ok(Math.abs(result.cash - (10_000 - result.fee!)) < 1e-9);
+      position = result.position;
+
+      await waitFor(() => reports.some((r) => r.status === 'FILLED'));
+      await waitFor(() => positions.some((update) => update.some((p) => p.positionQty === 0.5)));
+      await waitFor(() => balances.length > 0);
+    });
+
+    await check('order book follows the price', async () => {
+      const before = book.getLastUpdateTs();
+      sim.step();
+      await waitFor(() => book.getLastUpdateTs() > before);
+      assert.ok(book.bestBid()!.price < 2010 && book.bestAsk()!.price > 2010);
+      assert.equal(book.getBids().length, 10);
+    });
+
+    await check('flip through a reduce-only close', async () => {
+      const result = await executor.execute('SELL', 1, { symbol: SYMBOL, currentPrice: 2010, position, cash: 10_000, equity: 10_000 });
+      assert.ok(result.success, result.error);
+      assert.equal(result.position.side, 'SHORT');
+      assert.equal(result.position.qty, -0.5);
+      assert.ok(result.pnl! > 0, 'closing the long at a higher price should realize a profit');
+      position = result.position;
+    });
+
+    await check('resting limit order fills when crossed', async () => {
+      const order = await rest.createOrder({ symbol: SYMBOL, side: 'BUY', order_type: 'LIMIT', order_quantity: 0.5, order_price: 1995 });
+      assert.equal((await rest.getOrder(order.order_id))!.status, 'NEW');
+
+      sim.step(); // 2020
+      sim.step(); // 1990, crosses
+      const filled = await rest.getOrder(order.order_id);
+      assert.equal(filled!.status, 'FILLED');
+      assert.equal((await rest.getPositions()).length, 0);
+    });
+
+    await check('cancel a resting order', async () => {
+      const order = await rest.createOrder({ symbol: SYMBOL, side: 'SELL', order_type: 'LIMIT', order_quantity: 0.1, order_price: 2500 });
+      await rest.cancelOrder(order.order_id, SYMBOL);
+      assert.equal((await rest.getOrder(order.order_id))!.status, 'CANCELLED');
+      assert.equal(await rest.getOrder('999999'), undefined);
+    });
+
+    await check('account figures from /v1/positions', async () => {
+      const info = await rest.getPositionsInfo();
+      assert.equal(info.rows.length, 0);
+      assert.ok(info.total_collateral_value > 10_000, 'the round trips were profitable');
+      assert.equal(info.free_collateral, info.total_collateral_value);
+    });
+  } finally {
+    ws.disconnect();
+    await sim.stop();
+  }
+
+  console.log('\nAll simulator checks passed');
+}
+
+async function check(name: string, run: () => Promise<void>): Promise<void> {
+  await run();
+  console.log(`ok - ${name}`);
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await delay(10);
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+main().catch((error) => {
+  console.error('not ok -', error);
+  process.exit(1);
+});
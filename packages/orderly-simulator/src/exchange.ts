@@ -0,0 +1,342 @@
+import { EventEmitter } from 'events';
+import type { OrderRequest, Position, PositionsInfo, AccountInfo } from '@aadenman/orderly-connector';
+import type {
+  SimAccount,
+  SimFill,
+  SimMatchingConfig,
+  SimOrder,
+  SimPosition,
+  SimSymbolConfig,
+} from './types.js';
+
+export class SimError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: number
+  ) {
+    super(message);
+    this.name = 'SimError';
+  }
+}
+
+interface AccountState {
+  account: SimAccount;
+  collateral: number;
+  positions: Map<string, SimPosition>;
+}
+
+// In-memory matching engine and account ledger behind the simulator server
+export class SimExchange extends EventEmitter {
+  private stepIndex = 0;
+  private prices = new Map<string, number>();
+  private orders = new Map<string, SimOrder>();
+  private accounts = new Map<string, AccountState>();
+  private nextOrderId = 1;
+
+  private slippage: number;
+  private takerFee: number;
+  private makerFee: number;
+
+  constructor(
+    readonly symbols: Record<string, SimSymbolConfig>,
+    accounts: SimAccount[],
+    private matching: SimMatchingConfig = {}
+  ) {
+    super();
+    this.slippage = matching.slippage ?? 0;
+    this.takerFee = matching.takerFee ?? 0.0005;
+    this.makerFee = matching.makerFee ?? 0.0002;
+
+    for (const [symbol, config] of Object.entries(symbols)) {
+      if (config.prices.length === 0) {
+        throw new Error(`Price path for ${symbol} is empty`);
+      }
+      this.prices.set(symbol, config.prices[0]);
+    }
+
+    for (const account of accounts) {
+      this.addAccount(account);
+    }
+  }
+
+  addAccount(account: SimAccount): void {
+    this.accounts.set(account.accountId, {
+      account,
+      collateral: account.collateral,
+      positions: new Map(),
+    });
+  }
+
+  getAccount(accountId: string): SimAccount | undefined {
+    return this.accounts.get(accountId)?.account;
+  }
+
+  getPrice(symbol: string): number {
+    const price = this.prices.get(symbol);
+    if (price === undefined) {
+      throw new SimError(`Unknown symbol ${symbol}`, 400, -1102);
+    }
+    return price;
+  }
+
+  getStep(): number {
+    return this.stepIndex;
+  }
+
+  // Moves every symbol one step along its price path and matches resting orders
+  advance(): void {
+    this.stepIndex++;
+
+    for (const [symbol, config] of Object.entries(this.symbols)) {
+      const path = config.prices;
+      const index = config.loop ? this.stepIndex % path.length : Math.min(this.stepIndex, path.length - 1);
+      const price = path[index];
+
+      this.prices.set(symbol, price);
+      this.matchResting(symbol, price);
+      this.emit('ticker', symbol, price);
+    }
+  }
+
+  placeOrder(accountId: string, request: OrderRequest): SimOrder {
+    const state = this.requireAccount(accountId);
+    const price = this.getPrice(request.symbol);
+
+    if (!(request.order_quantity > 0)) {
+      throw new SimError('order_quantity must be positive', 400, -1102);
+    }
+    if (request.order_type === 'LIMIT' && !(Number(request.order_price) > 0)) {
+      throw new SimError('order_price required for LIMIT orders', 400, -1102);
+    }
+    if (request.client_order_id && this.findByClientOrderId(accountId, request.client_order_id)) {
+      throw new SimError(`Duplicate client_order_id ${request.client_order_id}`, 400, -1104);
+    }
+
+    const now = Date.now();
+    const order: SimOrder = {
+      order_id: String(this.nextOrderId++),
+      client_order_id: request.client_order_id,
+      account_id: accountId,
+      symbol: request.symbol,
+      side: request.side,
+      order_type: request.order_type,
+      order_quantity: request.order_quantity,
+      order_price: request.order_price,
+      reduce_only: request.reduce_only ?? false,
+      status: 'NEW',
+      executed_quantity: 0,
+      total_fee: 0,
+      created_time: now,
+      updated_time: now,
+    };
+    this.orders.set(order.order_id, order);
+
+    const rejection = this.matching.rejectOrder?.(request, accountId) ?? this.checkReduceOnly(state, order);
+    if (rejection) {
+      this.finish(order, 'REJECTED');
+      throw new SimError(rejection, 400, -1101);
+    }
+
+    this.emit('order', order);
+
+    const marketable =
+      order.order_type === 'MARKET' ||
+      (order.side === 'BUY' ? price <= order.order_price! : price >= order.order_price!);
+
+    if (marketable) {
+      const fillPrice =
+        order.order_type === 'MARKET'
+          ? price * (order.side === 'BUY' ? 1 + this.slippage : 1 - this.slippage)
+          : price;
+      this.fill(state, order, fillPrice, false);
+    }
+
+    return order;
+  }
+
+  cancelOrder(accountId: string, orderId: string, symbol?: string): SimOrder {
+    const order = this.orders.get(String(orderId));
+    if (!order || order.account_id !== accountId || (symbol && order.symbol !== symbol)) {
+      throw new SimError(`Order ${orderId} not found`, 404, -1006);
+    }
+    if (order.status !== 'NEW' && order.status !== 'PARTIAL_FILLED') {
+      throw new SimError(`Order ${orderId} is already ${order.status}`, 400, -1006);
+    }
+
+    this.finish(order, 'CANCELLED');
+    return order;
+  }
+
+  getOrders(accountId: string, symbol?: string): SimOrder[] {
+    return Array.from(this.orders.values()).filter(
+      (o) => o.account_id === accountId && (!symbol || o.symbol === symbol)
+    );
+  }
+
+  getOrder(accountId: string, orderId: string): SimOrder | undefined {
+    const order = this.orders.get(String(orderId));
+    return order?.account_id === accountId ? order : undefined;
+  }
+
+  findByClientOrderId(accountId: string, clientOrderId: string): SimOrder | undefined {
+    return this.getOrders(accountId).find((o) => o.client_order_id === clientOrderId);
+  }
+
+  getPositions(accountId: string): Position[] {
+    const state = this.requireAccount(accountId);
+
+    return Array.from(state.positions.values())
+      .filter((p) => p.qty !== 0)
+      .map((p) => {
+        const mark = this.getPrice(p.symbol);
+        return {
+          symbol: p.symbol,
+          position_qty: p.qty,
+          cost_position: p.qty * p.avgPrice,
+          average_open_price: p.avgPrice,
+          unrealized_pnl: (mark - p.avgPrice) * p.qty,
+          mark_price: mark,
+        };
+      });
+  }
+
+  getPositionsInfo(accountId: string): PositionsInfo {
+    const info = this.getAccountInfo(accountId);
+    return {
+      rows: info.positions,
+      total_collateral_value: info.total_value,
+      free_collateral: info.free_collateral,
+    };
+  }
+
+  getAccountInfo(accountId: string): AccountInfo {
+    const state = this.requireAccount(accountId);
+    const positions = this.getPositions(accountId);
+
+    const unrealized = positions.reduce((sum, p) => sum + p.unrealized_pnl, 0);
+    const initialMargin = positions.reduce((sum, p) => {
+      const imr = this.symbols[p.symbol]?.baseImr ?? 0.1;
+      return sum + Math.abs(p.position_qty) * p.mark_price * imr;
+    }, 0);
+    const totalValue = state.collateral + unrealized;
+
+    return {
+      account_id: accountId,
+      total_collateral: state.collateral,
+      free_collateral: totalValue - initialMargin,
+      total_value: totalValue,
+      positions,
+    };
+  }
+
+  getCollateral(accountId: string): number {
+    return this.requireAccount(accountId).collateral;
+  }
+
+  private requireAccount(accountId: string): AccountState {
+    const state = this.accounts.get(accountId);
+    if (!state) {
+      throw new SimError(`Unknown account ${accountId}`, 401, -1004);
+    }
+    return state;
+  }
+
+  private checkReduceOnly(state: AccountState, order: SimOrder): string | undefined {
+    if (!order.reduce_only) return undefined;
+
+    const positionQty = state.positions.get(order.symbol)?.qty ?? 0;
+    const reduces = order.side === 'BUY' ? positionQty < 0 : positionQty > 0;
+    if (!reduces) {
+      return 'Reduce-only order would increase position';
+    }
+
+    order.order_quantity = Math.min(order.order_quantity, Math.abs(positionQty));
+    return undefined;
+  }
+
+  private matchResting(symbol: string, price: number): void {
+    for (const order of this.orders.values()) {
+      if (order.symbol !== symbol || order.order_type !== 'LIMIT' || order.status !== 'NEW') continue;
+
+      const crossed = order.side === 'BUY' ? price <= order.order_price! : price >= order.order_price!;
+      if (!crossed) continue;
+
+      const state = this.accounts.get(order.account_id);
+      if (!state) continue;
+
+      if (order.reduce_only && this.checkReduceOnly(state, order)) {
+        this.finish(order, 'CANCELLED');
+        continue;
+      }
+
+      this.fill(state, order, order.order_price!, true);
+    }
+  }
+
+  private fill(state: AccountState, order: SimOrder, price: number, maker: boolean): void {
+    const qty = order.order_quantity - order.executed_quantity;
+    const fee = qty * price * (maker ? this.makerFee : this.takerFee);
+    const realizedPnl = this.applyToPosition(state, order.symbol, order.side, qty, price);
+
+    state.collateral += realizedPnl - fee;
+
+    order.average_executed_price = price;
+    order.executed_quantity += qty;
+    order.total_fee += fee;
+
+    const fill: SimFill = {
+      accountId: state.account.accountId,
+      order,
+      qty,
+      price,
+      fee,
+      maker,
+      realizedPnl,
+      timestamp: Date.now(),
+    };
+
+    this.finish(order, 'FILLED');
+    this.emit('fill', fill);
+  }
+
+  // Returns realized PnL from any part of the fill that reduces the position
+  private applyToPosition(
+    state: AccountState,
+    symbol: string,
+    side: 'BUY' | 'SELL',
+    qty: number,
+    price: number
+  ): number {
+    const position = state.positions.get(symbol) ?? { symbol, qty: 0, avgPrice: 0 };
+    const signedQty = side === 'BUY' ? qty : -qty;
+    let realized = 0;
+
+    if (position.qty === 0 || Math.sign(position.qty) === Math.sign(signedQty)) {
+      const total = Math.abs(position.qty) + qty;
+      position.avgPrice = (Math.abs(position.qty) * position.avgPrice + qty * price) / total;
+      position.qty += signedQty;
+    } else {
+      const closeQty = Math.min(qty, Math.abs(position.qty));
+      realized = (price - position.avgPrice) * closeQty * Math.sign(position.qty);
+
+      const previousSign = Math.sign(position.qty);
+      position.qty += signedQty;
+
+      if (position.qty === 0) {
+        position.avgPrice = 0;
+      } else if (Math.sign(position.qty) !== previousSign) {
+        position.avgPrice = price;
+      }
+    }
+
+    state.positions.set(symbol, position);
+    return realized;
+  }
+
+  private finish(order: SimOrder, status: SimOrder['status']): void {
+    order.status = status;
+    order.updated_time = Date.now();
+    this.emit('order', order);
+  }
+}
@@ -0,0 +1,3 @@
+export * from './types.js';
+export * from './exchange.js';
+export * from './server.js';
@@ -0,0 +1,545 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import {
+  verifySignature,
+  type OrderBookSnapshot,
+  type OrderRequest,
+  type RawOrderBookLevel,
+} from '@aadenman/orderly-connector';
+import { SimExchange, SimError } from './exchange.js';
+import type { SimulatorConfig, SimFill, SimOrder } from './types.js';
+
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const FUNDING_PERIOD_MS = 8 * 60 * 60 * 1000;
+
+interface SocketState {
+  accountId?: string;
+  topics: Set<string>;
+}
+
+// Local stand-in for Orderly's REST and WebSocket APIs, serving scripted
+// price paths and matching orders against them
+export class OrderlySimulator {
+  readonly exchange: SimExchange;
+
+  private server: http.Server;
+  private wss: WebSocketServer;
+  private sockets = new Map<WebSocket, SocketState>();
+  private books = new Map<string, OrderBookSnapshot>();
+  private stepTimer: NodeJS.Timeout | null = null;
+  private verifySignatures: boolean;
+
+  constructor(private config: SimulatorConfig) {
+    this.exchange = new SimExchange(config.symbols, config.accounts ?? [], config.matching);
+    this.verifySignatures = config.verifySignatures ?? true;
+
+    this.server = http.createServer((req, res) => {
+      this.handleHttp(req, res).catch((error) => {
+        this.sendError(res, error);
+      });
+    });
+    this.wss = new WebSocketServer({ server: this.server });
+    this.wss.on('connection', (ws) => this.handleConnection(ws));
+
+    for (const symbol of Object.keys(config.symbols)) {
+      this.books.set(symbol, this.buildBook(symbol));
+    }
+
+    this.exchange.on('ticker', (symbol: string, price: number) => {
+      this.pushTicker(symbol, price);
+      this.pushOrderBook(symbol);
+    });
+    this.exchange.on('order', (order: SimOrder) => this.pushOrderStatus(order));
+    this.exchange.on('fill', (fill: SimFill) => this.pushFill(fill));
+  }
+
+  async start(): Promise<{ baseUrl: string; wsUrl: string }> {
+    await new Promise<void>((resolve) => this.server.listen(this.config.port ?? 0, '127.0.0.1', resolve));
+
+    if (this.config.stepIntervalMs) {
+      this.stepTimer = setInterval(() => this.step(), this.config.stepIntervalMs);
+    }
+
+    const { port } = this.server.address() as AddressInfo;
+    console.log(`[Orderly Sim] Listening on port ${port}`);
+    return { baseUrl: `http://127.0.0.1:${port}`, wsUrl: `ws://127.0.0.1:${port}/ws/stream` };
+  }
+
+  async stop(): Promise<void> {
+    if (this.stepTimer) {
+      clearInterval(this.stepTimer);
+      this.stepTimer = null;
+    }
+
+    for (const ws of this.sockets.keys()) {
+      ws.terminate();
+    }
+    this.sockets.clear();
+
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  step(): void {
+    this.exchange.advance();
+  }
+
+  private async handleHttp(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = req.method ?? 'GET';
+    const path = req.url ?? '/';
+    const url = new URL(path, 'http://localhost');
+    const body = await readBody(req);
+
+    // Public market data
+    let match = url.pathname.match(/^\/v1\/public\/futures\/([^/]+)$/);
+    if (method === 'GET' && match) {
+      return this.sendData(res, this.futuresInfo(match[1]));
+    }
+    if (method === 'GET' && url.pathname === '/v1/public/futures') {
+      return this.sendData(res, { rows: Object.keys(this.config.symbols).map((s) => this.futuresInfo(s)) });
+    }
+    match = url.pathname.match(/^\/v1\/public\/info\/([^/]+)$/);
+    if (method === 'GET' && match) {
+      return this.sendData(res, this.symbolInfo(match[1]));
+    }
+    if (method === 'GET' && url.pathname === '/v1/public/info') {
+      return this.sendData(res, { rows: Object.keys(this.config.symbols).map((s) => this.symbolInfo(s)) });
+    }
+    match = url.pathname.match(/^\/v1\/public\/funding_rate\/([^/]+)$/);
+    if (method === 'GET' && match) {
+      return this.sendData(res, this.fundingRate(match[1]));
+    }
+    if (method === 'GET' && url.pathname === '/v1/public/funding_rate_history') {
+      return this.sendData(res, this.fundingRateHistory(url.searchParams));
+    }
+
+    // Everything else is private
+    const accountId = this.authenticate(req, method, path, body);
+    const params = body ? JSON.parse(body) : {};
+
+    if (method === 'POST' && url.pathname === '/v1/order') {
+      return this.sendData(res, this.exchange.placeOrder(accountId, params as OrderRequest));
+    }
+    if (method === 'DELETE' && url.pathname === '/v1/order') {
+      const orderId = params.order_id ?? url.searchParams.get('order_id');
+      const symbol = params.symbol ?? url.searchParams.get('symbol') ?? undefined;
+      const order = this.exchange.cancelOrder(accountId, orderId, symbol);
+      return this.sendData(res, { status: order.status });
+    }
+    if (method === 'GET' && url.pathname === '/v1/orders') {
+      const symbol = url.searchParams.get('symbol') ?? undefined;
+      const rows = this.exchange.getOrders(accountId, symbol);
+      return this.sendData(res, { meta: { total: rows.length }, rows });
+    }
+    match = url.pathname.match(/^\/v1\/order\/([^/]+)$/);
+    if (method === 'GET' && match) {
+      const order = this.exchange.getOrder(accountId, decodeURIComponent(match[1]));
+      if (!order) throw new SimError('Order not found', 404, -1006);
+      return this.sendData(res, order);
+    }
+    match = url.pathname.match(/^\/v1\/client\/order\/([^/]+)$/);
+    if (method === 'GET' && match) {
+      const order = this.exchange.findByClientOrderId(accountId, decodeURIComponent(match[1]));
+      if (!order) throw new SimError('Order not found', 404, -1006);
+      return this.sendData(res, order);
+    }
+    if (method === 'GET' && url.pathname === '/v1/positions') {
+      return this.sendData(res, this.exchange.getPositionsInfo(accountId));
+    }
+    if (method === 'GET' && url.pathname === '/v1/client/info') {
+      return this.sendData(res, this.exchange.getAccountInfo(accountId));
+    }
+
+    throw new SimError(`No route for ${method} ${url.pathname}`, 404, -1000);
+  }
+
+  // Verifies the orderly-* headers against the account's registered key
+  private authenticate(req: http.IncomingMessage, method: string, path: string, body: string): string {
+    const accountId = header(req, 'orderly-account-id');
+    const key = header(req, 'orderly-key').replace(/^ed25519:/, '');
+    const timestamp = header(req, 'orderly-timestamp');
+    const signature = header(req, 'orderly-signature');
+
+    const account = this.exchange.getAccount(accountId);
+    if (!account) {
+      throw new SimError(`Unknown account ${accountId}`, 401, -1004);
+    }
+    if (!this.verifySignatures) return accountId;
+
+    if (key !== account.publicKey) {
+      throw new SimError('Orderly key not registered for account', 401, -1004);
+    }
+    if (Math.abs(Date.now() - Number(timestamp)) > MAX_CLOCK_SKEW_MS) {
+      throw new SimError('Timestamp expired', 401, -1003);
+    }
+    if (!verifySignature(`${timestamp}${method}${path}${body}`, signature, key)) {
+      throw new SimError('Signature verification failed', 401, -1003);
+    }
+
+    return accountId;
+  }
+
+  private handleConnection(ws: WebSocket): void {
+    const state: SocketState = { topics: new Set() };
+    this.sockets.set(ws, state);
+
+    ws.on('message', (data: Buffer) => {
+      let msg: any;
+      try {
+        msg = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      this.handleWsMessage(ws, state, msg);
+    });
+
+    ws.on('close', () => this.sockets.delete(ws));
+  }
+
+  private handleWsMessage(ws: WebSocket, state: SocketState, msg: any): void {
+    const ts = Date.now();
+
+    switch (msg.event) {
+      case 'ping':
+        send(ws, { event: 'pong', ts });
+        break;
+
+      case 'pong':
+        break;
+
+      case 'auth': {
+        const key = String(msg.params?.orderly_key ?? '').replace(/^ed25519:/, '');
+        const account = this.findAccountByKey(key);
+        const ok =
+          !!account &&
+          (!this.verifySignatures || verifySignature(String(msg.params?.timestamp), msg.params?.sign, key));
+
+        if (ok) state.accountId = account!.accountId;
+        send(ws, { id: msg.id, event: 'auth', success: ok, ts, errorMsg: ok ? undefined : 'auth failed' });
+        break;
+      }
+
+      case 'subscribe': {
+        const topic = String(msg.topic ?? '');
+        const isPrivate = !topic.includes('@');
+        const ok = !isPrivate || !!state.accountId;
+
+        if (ok) state.topics.add(topic);
+        send(ws, {
+          id: msg.id,
+          event: 'subscribe',
+          success: ok,
+          ts,
+          data: topic,
+          errorMsg: ok ? undefined : 'private topic requires auth',
+        });
+
+        // Ticker subscribers get the current price straight away
+        const symbol = topic.split('@')[0];
+        if (ok && topic.endsWith('@ticker') && this.config.symbols[symbol]) {
+          send(ws, { topic, ts, data: this.tickerData(symbol, this.exchange.getPrice(symbol)) });
+        }
+        break;
+      }
+
+      case 'request': {
+        const symbol = String(msg.params?.symbol ?? '');
+        const book = msg.params?.type === 'orderbook' ? this.books.get(symbol) : undefined;
+        send(ws, book
+          ? { id: msg.id, event: 'request', success: true, ts, data: book }
+          : { id: msg.id, event: 'request', success: false, ts, errorMsg: 'unsupported request' });
+        break;
+      }
+
+      case 'unsubscribe':
+        state.topics.delete(String(msg.topic ?? ''));
+        send(ws, { id: msg.id, event: 'unsubscribe', success: true, ts });
+        break;
+
+      default:
+        send(ws, { id: msg.id, event: msg.event, success: false, ts, errorMsg: 'unsupported event' });
+    }
+  }
+
+  private pushTicker(symbol: string, price: number): void {
+    const topic = `${symbol}@ticker`;
+    this.broadcast((state) => state.topics.has(topic), { topic, ts: Date.now(), data: this.tickerData(symbol, price) });
+  }
+
+  // The ladder moves whole with the price: levels it leaves are sent with qty 0
+  private pushOrderBook(symbol: string): void {
+    const previous = this.books.get(symbol);
+    const book = this.buildBook(symbol, previous);
+    this.books.set(symbol, book);
+    if (!previous) return;
+
+    const removed = (before: RawOrderBookLevel[], after: RawOrderBookLevel[]): RawOrderBookLevel[] =>
+      before.filter(([price]) => !after.some(([p]) => p === price)).map(([price]) => [price, 0]);
+
+    const topic = `${symbol}@orderbookupdate`;
+    this.broadcast((state) => state.topics.has(topic), {
+      topic,
+      ts: book.ts,
+      data: {
+        symbol,
+        prevTs: previous.ts,
+        ts: book.ts,
+        bids: [...removed(previous.bids, book.bids), ...book.bids],
+        asks: [...removed(previous.asks, book.asks), ...book.asks],
+      },
+    });
+  }
+
+  private buildBook(symbol: string, previous?: OrderBookSnapshot): OrderBookSnapshot {
+    const config = this.config.symbols[symbol];
+    const price = this.exchange.getPrice(symbol);
+    const tick = config.quoteTick ?? 0.1;
+    const levels = config.bookLevels ?? 10;
+    const qty = config.bookQty ?? 1;
+    const half = Math.max(tick, (price * (config.bookSpread ?? 0.0002)) / 2);
+    const round = (p: number) => Number((Math.round(p / tick) * tick).toFixed(10));
+
+    const bids: RawOrderBookLevel[] = [];
+    const asks: RawOrderBookLevel[] = [];
+    for (let i = 0; i < levels; i++) {
+      bids.push([round(price - half - i * tick), qty]);
+      asks.push([round(price + half + i * tick), qty]);
+    }
+
+    // Sequence timestamps must increase even when steps land in the same millisecond
+    const ts = Math.max(Date.now(), (previous?.ts ?? 0) + 1);
+    return { symbol, ts, bids, asks };
+  }
+
+  private pushOrderStatus(order: SimOrder): void {
+    // Fills are reported with their trade details by pushFill
+    if (order.status === 'FILLED') return;
+    this.pushExecutionReport(order.account_id, order, 0, 0, 0, false);
+  }
+
+  private pushFill(fill: SimFill): void {
+    this.pushExecutionReport(fill.accountId, fill.order, fill.qty, fill.price, fill.fee, fill.maker);
+
+    const ts = Date.now();
+    const info = this.exchange.getAccountInfo(fill.accountId);
+    const forAccount = (state: SocketState) => state.accountId === fill.accountId;
+
+    this.broadcast((state) => forAccount(state) && state.topics.has('position'), {
+      topic: 'position',
+      ts,
+      data: {
+        positions: info.positions.map((p) => ({
+          symbol: p.symbol,
+          positionQty: p.position_qty,
+          costPosition: p.cost_position,
+          averageOpenPrice: p.average_open_price,
+          markPrice: p.mark_price,
+          unsettledPnl: p.unrealized_pnl,
+          estLiqPrice: 0,
+          pendingLongQty: 0,
+          pendingShortQty: 0,
+          timestamp: ts,
+        })),
+      },
+    });
+
+    this.broadcast((state) => forAccount(state) && state.topics.has('balance'), {
+      topic: 'balance',
+      ts,
+      data: {
+        balances: {
+          USDC: {
+            holding: this.exchange.getCollateral(fill.accountId),
+            frozen: 0,
+            pendingShortQty: 0,
+            pendingLongQty: 0,
+            version: ts,
+          },
+        },
+      },
+    });
+  }
+
+  private pushExecutionReport(
+    accountId: string,
+    order: SimOrder,
+    qty: number,
+    price: number,
+    fee: number,
+    maker: boolean
+  ): void {
+    const ts = Date.now();
+    this.broadcast((state) => state.accountId === accountId && state.topics.has('executionreport'), {
+      topic: 'executionreport',
+      ts,
+      data: {
+        symbol: order.symbol,
+        orderId: Number(order.order_id),
+        clientOrderId: order.client_order_id ?? '',
+        type: order.order_type,
+        side: order.side,
+        quantity: order.order_quantity,
+        price: order.order_price ?? 0,
+        tradeId: qty > 0 ? ts : 0,
+        executedPrice: price,
+        executedQuantity: qty,
+        totalExecutedQuantity: order.executed_quantity,
+        avgPrice: order.average_executed_price ?? 0,
+        fee,
+        feeAsset: 'USDC',
+        totalFee: order.total_fee,
+        status: order.status,
+        reason: '',
+        reduceOnly: order.reduce_only,
+        maker,
+        timestamp: ts,
+      },
+    });
+  }
+
+  private broadcast(filter: (state: SocketState) => boolean, msg: object): void {
+    for (const [ws, state] of this.sockets) {
+      if (filter(state)) send(ws, msg);
+    }
+  }
+
+  private findAccountByKey(key: string) {
+    for (const account of this.config.accounts ?? []) {
+      if (account.publicKey === key) return account;
+    }
+    return undefined;
+  }
+
+  private tickerData(symbol: string, price: number) {
+    return { symbol, open: price, close: price, high: price, low: price, volume: 0, amount: 0, count: 0 };
+  }
+
+  private futuresInfo(symbol: string) {
+    const price = this.exchange.getPrice(symbol);
+    const rate = this.config.symbols[symbol]?.fundingRate ?? 0;
+
+    return {
+      symbol,
+      index_price: price,
+      mark_price: price,
+      sum_unitary_funding: 0,
+      est_funding_rate: rate,
+      last_funding_rate: rate,
+      next_funding_time: nextFundingTime(),
+      open_interest: 0,
+      '24h_open': price,
+      '24h_close': price,
+      '24h_high': price,
+      '24h_low': price,
+      '24h_volume': 0,
+      '24h_amount': 0,
+    };
+  }
+
+  private symbolInfo(symbol: string) {
+    const config = this.config.symbols[symbol];
+    if (!config) {
+      throw new SimError(`Unknown symbol ${symbol}`, 400, -1102);
+    }
+
+    return {
+      symbol,
+      base_tick: config.baseTick ?? 0.0001,
+      quote_tick: config.quoteTick ?? 0.1,
+      base_min: config.baseMin ?? 0.0001,
+      base_max: config.baseMax ?? 100,
+      quote_min: 0,
+      quote_max: 1_000_000,
+      min_notional: config.minNotional ?? 10,
+      price_range: 0.03,
+      base_imr: config.baseImr ?? 0.1,
+      base_mmr: config.baseMmr ?? 0.05,
+      imr_factor: 0,
+      funding_period: 8,
+      cap_funding: 0.0075,
+      floor_funding: -0.0075,
+    };
+  }
+
+  private fundingRate(symbol: string) {
+    this.exchange.getPrice(symbol);
+    const rate = this.config.symbols[symbol]?.fundingRate ?? 0;
+    const next = nextFundingTime();
+
+    return {
+      symbol,
+      est_funding_rate: rate,
+      est_funding_rate_timestamp: Date.now(),
+      last_funding_rate: rate,
+      last_funding_rate_timestamp: next - FUNDING_PERIOD_MS,
+      next_funding_time: next,
+      sum_unitary_funding: 0,
+    };
+  }
+
+  // The configured rate at every settlement in range, newest first like Orderly
+  private fundingRateHistory(params: URLSearchParams) {
+    const symbol = params.get('symbol') ?? '';
+    this.exchange.getPrice(symbol);
+    const rate = this.config.symbols[symbol]?.fundingRate ?? 0;
+
+    const end = Number(params.get('end_t') ?? Date.now());
+    const start = Number(params.get('start_t') ?? end - 7 * 24 * 60 * 60 * 1000);
+    const page = Number(params.get('page') ?? 1);
+    const size = Number(params.get('size') ?? 60);
+
+    const times: number[] = [];
+    for (let t = Math.floor(end / FUNDING_PERIOD_MS) * FUNDING_PERIOD_MS; t >= start; t -= FUNDING_PERIOD_MS) {
+      times.push(t);
+    }
+
+    return {
+      meta: { total: times.length, records_per_page: size, current_page: page },
+      rows: times.slice((page - 1) * size, page * size).map((t) => ({
+        symbol,
+        funding_rate: rate,
+        funding_rate_timestamp: t,
+        next_funding_time: t + FUNDING_PERIOD_MS,
+      })),
+    };
+  }
+
+  private sendData(res: http.ServerResponse, data: unknown): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: true, data, timestamp: Date.now() }));
+  }
+
+  private sendError(res: http.ServerResponse, error: unknown): void {
+    const status = error instanceof SimError ? error.status : 500;
+    const code = error instanceof SimError ? error.code : -1000;
+    const message = error instanceof Error ? error.message : 'Internal error';
+
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: false, code, message }));
+  }
+}
+
+function header(req: http.IncomingMessage, name: string): string {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value ?? '';
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString()));
+    req.on('error', reject);
+  });
+}
+
+function send(ws: WebSocket, msg: object): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(msg));
+  }
+}
+
+function nextFundingTime(): number {
+  return Math.ceil(Date.now() / FUNDING_PERIOD_MS) * FUNDING_PERIOD_MS;
+}
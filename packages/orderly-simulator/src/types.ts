@@ -0,0 +1,77 @@
+import type { OrderRequest } from '@aadenman/orderly-connector';
+
+export interface SimSymbolConfig {
+  prices: number[]; // scripted price path, one entry per step
+  loop?: boolean; // restart the path instead of holding the last price
+  baseTick?: number;
+  quoteTick?: number;
+  baseMin?: number;
+  baseMax?: number;
+  minNotional?: number;
+  baseImr?: number;
+  baseMmr?: number;
+  fundingRate?: number;
+  // Synthetic L2 book around the current price, served over WebSocket only;
+  // matching still fills at the scripted price
+  bookLevels?: number; // per side, default 10
+  bookSpread?: number; // best ask over best bid, 0.0002 = 2 bps
+  bookQty?: number; // per level, default 1
+}
+
+export interface SimAccount {
+  accountId: string;
+  publicKey: string; // base64url ed25519 public key
+  collateral: number;
+}
+
+export interface SimMatchingConfig {
+  slippage?: number; // applied to market fills, 0.001 = 0.1%
+  takerFee?: number;
+  makerFee?: number;
+  // Return a reason to reject an order, e.g. to script exchange errors
+  rejectOrder?: (order: OrderRequest, accountId: string) => string | undefined;
+}
+
+export interface SimulatorConfig {
+  port?: number; // 0 picks a free port
+  symbols: Record<string, SimSymbolConfig>;
+  accounts?: SimAccount[];
+  matching?: SimMatchingConfig;
+  stepIntervalMs?: number; // advance prices automatically; omit to step manually
+  verifySignatures?: boolean;
+}
+
+export interface SimOrder {
+  order_id: string;
+  client_order_id?: string;
+  account_id: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  order_type: 'MARKET' | 'LIMIT';
+  order_quantity: number;
+  order_price?: number;
+  reduce_only: boolean;
+  status: 'NEW' | 'PARTIAL_FILLED' | 'FILLED' | 'CANCELLED' | 'REJECTED';
+  executed_quantity: number;
+  average_executed_price?: number;
+  total_fee: number;
+  created_time: number;
+  updated_time: number;
+}
+
+export interface SimPosition {
+  symbol: string;
+  qty: number; // signed, negative for shorts
+  avgPrice: number;
+}
+
+export interface SimFill {
+  accountId: string;
+  order: SimOrder;
+  qty: number;
+  price: number;
+  fee: number;
+  maker: boolean;
+  realizedPnl: number;
+  timestamp: number;
+}
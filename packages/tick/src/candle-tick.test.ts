@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { VirtualClock, type Clock } from '@aadenman/clock';
+import { CandleTick } from './candle-tick.js';
+import type { Candle, PriceUpdateCallback } from './types.js';
+
+const MINUTE = 60_000;
+
+function setup(startTime: number, clock: Clock = new VirtualClock(startTime), seed?: Candle[]) {
+  let listener: PriceUpdateCallback | undefined;
+  const source = {
+    onPrice: (_symbol: string, callback: PriceUpdateCallback) => { listener = callback; },
+    offPrice: () => { listener = undefined; },
+  };
+  const tick = new CandleTick({ source, symbol: 'X', interval: '1m', clock, seed });
+  const closed: Candle[] = [];
+  tick.onCandle((candle) => { closed.push(candle); });
+  tick.start();
+
+  const price = (price: number, timestamp: number, volume?: number) =>
+    listener?.({ symbol: 'X', price, timestamp, volume });
+  return { tick, closed, price };
+}
+
+describe('CandleTick', () => {
+  it('skips the partial interval start() lands in', async () => {
+    const clock = new VirtualClock(30_000);
+    const { closed, price } = setup(30_000, clock);
+
+    price(1, 40_000);
+    await clock.advanceTo(MINUTE);
+    expect(closed).toEqual([]);
+
+    price(2, 61_000, 1);
+    price(3, 62_000, 2);
+    price(1.5, 63_000);
+    await clock.advanceTo(2 * MINUTE);
+    expect(closed).toEqual([
+      { symbol: 'X', interval: '1m', openTime: MINUTE, open: 2, high: 3, low: 1.5, close: 1.5, volume: 3 },
+    ]);
+  });
+
+  it('starts with the interval when started on a boundary', async () => {
+    const clock = new VirtualClock(MINUTE);
+    const { closed, price } = setup(MINUTE, clock);
+
+    price(5, MINUTE);
+    await clock.advanceTo(2 * MINUTE);
+    expect(closed.map((c) => c.openTime)).toEqual([MINUTE]);
+  });
+
+  it('buckets prices by their own timestamp', async () => {
+    const clock = new VirtualClock(MINUTE);
+    const { tick, closed, price } = setup(MINUTE, clock);
+
+    price(2, MINUTE + 1000);
+    // Delivered before the timer fires, but already in the next interval
+    await clock.advanceTo(2 * MINUTE - 1);
+    price(3, 2 * MINUTE + 5);
+    expect(closed.map((c) => [c.openTime, c.close])).toEqual([[MINUTE, 2]]);
+
+    // A late print for the closed candle does not leak into the open one
+    price(9, 2 * MINUTE - 10);
+    expect(tick.getCurrentCandle()).toMatchObject({ openTime: 2 * MINUTE, high: 3 });
+
+    await clock.advanceTo(3 * MINUTE);
+    expect(closed.map((c) => [c.openTime, c.close])).toEqual([[MINUTE, 2], [2 * MINUTE, 3]]);
+  });
+
+  it('closes quiet intervals as flat candles', async () => {
+    const clock = new VirtualClock(MINUTE);
+    const { closed, price } = setup(MINUTE, clock);
+
+    price(4, MINUTE + 1);
+    await clock.advanceTo(4 * MINUTE);
+    expect(closed.map((c) => [c.openTime, c.open, c.close, c.volume])).toEqual([
+      [MINUTE, 4, 4, 0],
+      [2 * MINUTE, 4, 4, 0],
+      [3 * MINUTE, 4, 4, 0],
+    ]);
+  });
+
+  it('never emits an open time twice when the timer fires early', async () => {
+    const virtual = new VirtualClock(MINUTE);
+    const early: Clock = {
+      now: () => virtual.now(),
+      setTimeout: (callback, delayMs) => virtual.setTimeout(callback, delayMs > 5 ? delayMs - 5 : delayMs),
+      clearTimeout: (handle) => virtual.clearTimeout(handle),
+      sleep: (ms) => virtual.sleep(ms),
+    };
+    const { closed, price } = setup(MINUTE, early);
+
+    price(1, MINUTE + 1);
+    await virtual.advanceTo(4 * MINUTE);
+
+    const openTimes = closed.map((c) => c.openTime);
+    expect(openTimes).toEqual([MINUTE, 2 * MINUTE, 3 * MINUTE]);
+    expect(new Set(openTimes).size).toBe(openTimes.length);
+  });
+
+  it('continues after a seed without re-emitting its candles', async () => {
+    const clock = new VirtualClock(2 * MINUTE);
+    const seed: Candle = { symbol: 'X', interval: '1m', openTime: 2 * MINUTE, open: 1, high: 1, low: 1, close: 1, volume: 0 };
+    const { tick, closed, price } = setup(2 * MINUTE, clock, [seed]);
+
+    price(7, 2 * MINUTE + 1);
+    await clock.advanceTo(4 * MINUTE);
+    expect(closed.map((c) => [c.openTime, c.close])).toEqual([[3 * MINUTE, 1]]);
+    expect(tick.getCandles().map((c) => c.openTime)).toEqual([2 * MINUTE, 3 * MINUTE]);
+  });
+});
@@ -0,0 +1,230 @@
+import { EventEmitter } from 'events';
+import { systemClock, type Clock, type TimerHandle } from '@aadenman/clock';
+import type {
+  Candle,
+  CandleCallback,
+  CandleCloseTickEvent,
+  CandleInterval,
+  PriceSource,
+  PriceUpdate,
+  Tick,
+  TickCallback,
+} from './types.js';
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+  '30m': 30 * 60_000,
+  '1h': 60 * 60_000,
+  '4h': 4 * 60 * 60_000,
+  '12h': 12 * 60 * 60_000,
+  '1d': 24 * 60 * 60_000,
+};
+
+export interface CandleTickConfig {
+  source: PriceSource;
+  symbol: string;
+  interval: CandleInterval;
+  // Closed candles kept for getCandles (default 200)
+  historySize?: number;
+  // Closed candles to start from, e.g. from the REST client's getKlines
+  seed?: Candle[];
+  // Recent candles to include in each tick event's payload (default none)
+  eventHistory?: number;
+  clock?: Clock;
+}
+
+// Aggregates a price stream into OHLCV candles aligned to UTC wall-clock boundaries
+// and fires on each close. Intervals without prices close as flat, zero-volume candles.
+// The interval start() lands in is partial and is not emitted.
+export class CandleTick extends EventEmitter implements Tick {
+  private source: PriceSource;
+  private symbol: string;
+  private interval: CandleInterval;
+  private intervalMs: number;
+  private historySize: number;
+  private eventHistory: number;
+  private clock: Clock;
+
+  private running = false;
+  private timer: TimerHandle | null = null;
+  // Open time of the next candle to emit
+  private nextOpenTime = 0;
+  private current: Candle | null = null;
+  private candles: Candle[] = [];
+
+  constructor(config: CandleTickConfig) {
+    super();
+    this.source = config.source;
+    this.symbol = config.symbol;
+    this.interval = config.interval;
+    this.intervalMs = CANDLE_INTERVAL_MS[config.interval];
+    this.historySize = config.historySize ?? 200;
+    this.eventHistory = config.eventHistory ?? 0;
+    this.clock = config.clock ?? systemClock;
+
+    if (config.seed) {
+      this.candles = [...config.seed].sort((a, b) => a.openTime - b.openTime).slice(-this.historySize);
+    }
+  }
+
+  start(): void {
+    if (this.running) return;
+
+    // The interval in progress is only partly observed, so the first candle
+    // emitted is the next full one, and never one the seed already holds
+    const now = this.clock.now();
+    const openTime = this.openTimeFor(now);
+    const last = this.getLastCandle();
+    this.nextOpenTime = Math.max(
+      openTime === now ? openTime : openTime + this.intervalMs,
+      last ? last.openTime + this.intervalMs : 0
+    );
+    this.current = null;
+
+    this.running = true;
+    this.source.onPrice(this.symbol, this.handlePrice);
+    this.scheduleClose();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.source.offPrice(this.symbol, this.handlePrice);
+
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  onTick(callback: TickCallback): void {
+    this.on('tick', callback);
+  }
+
+  offTick(callback: TickCallback): void {
+    this.off('tick', callback);
+  }
+
+  onCandle(callback: CandleCallback): void {
+    this.on('candle', callback);
+  }
+
+  offCandle(callback: CandleCallback): void {
+    this.off('candle', callback);
+  }
+
+  getLastCandle(): Candle | undefined {
+    return this.candles[this.candles.length - 1];
+  }
+
+  // Most recent closed candles, oldest first
+  getCandles(count?: number): Candle[] {
+    return count === undefined ? [...this.candles] : this.candles.slice(-count);
+  }
+
+  // The candle still forming, if any price has arrived in this interval
+  getCurrentCandle(): Candle | undefined {
+    return this.current ? { ...this.current } : undefined;
+  }
+
+  // Prices go to the candle of their own timestamp, so late or batched
+  // deliveries are not counted in whichever candle is open when they arrive
+  private handlePrice = (update: PriceUpdate): void => {
+    if (!this.running || !(update.price > 0)) return;
+
+    const openTime = this.openTimeFor(update.timestamp);
+    // Its candle was already emitted, or is the partial one before start()
+    if (openTime < this.nextOpenTime) return;
+
+    // The first price of a later interval closes the ones before it
+    this.closeThrough(openTime - this.intervalMs);
+
+    const { price } = update;
+    const volume = update.volume ?? 0;
+
+    if (!this.current) {
+      this.current = {
+        symbol: this.symbol,
+        interval: this.interval,
+        openTime,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume,
+      };
+      return;
+    }
+
+    this.current.high = Math.max(this.current.high, price);
+    this.current.low = Math.min(this.current.low, price);
+    this.current.close = price;
+    this.current.volume += volume;
+  };
+
+  private openTimeFor(timestamp: number): number {
+    return Math.floor(timestamp / this.intervalMs) * this.intervalMs;
+  }
+
+  private scheduleClose(): void {
+    if (!this.running) return;
+
+    // Timers can fire a little early or late; only intervals that have ended
+    // by now are closed, and never one already emitted
+    const now = this.clock.now();
+    const openTime = this.openTimeFor(now);
+    this.closeThrough(openTime - this.intervalMs);
+
+    this.timer = this.clock.setTimeout(() => this.scheduleClose(), openTime + this.intervalMs - now);
+  }
+
+  // Emits every interval from the next unemitted one up to and including openTime
+  private closeThrough(openTime: number): void {
+    while (this.nextOpenTime <= openTime) {
+      this.close(this.nextOpenTime);
+      this.nextOpenTime += this.intervalMs;
+    }
+  }
+
+  private close(openTime: number): void {
+    let candle = this.current?.openTime === openTime ? this.current : null;
+    if (candle) this.current = null;
+
+    if (!candle) {
+      const previous = this.getLastCandle();
+      // Nothing to carry forward before the first price
+      if (!previous) return;
+
+      const price = previous.close;
+      candle = {
+        symbol: this.symbol,
+        interval: this.interval,
+        openTime,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: 0,
+      };
+    }
+
+    this.candles.push(candle);
+    if (this.candles.length > this.historySize) {
+      this.candles.shift();
+    }
+
+    const event: CandleCloseTickEvent = {
+      source: `candle:${this.symbol}:${this.interval}`,
+      timestamp: this.clock.now(),
+      reason: 'candle-close',
+      payload: {
+        candle,
+        candles: this.eventHistory > 0 ? this.getCandles(this.eventHistory) : undefined,
+      },
+    };
+
+    this.emit('candle', candle);
+    this.emit('tick', event);
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { SessionGateTick } from './combinators.js';
+import { TimerTick } from './timer-tick.js';
+
+const utc = (day: number, hour: number, minute = 0) => Date.UTC(2026, 9, day, hour, minute);
+const gate = (sessions: ConstructorParameters<typeof SessionGateTick>[1]['sessions']) =>
+  new SessionGateTick(new TimerTick(60_000), { sessions });
+
+describe('SessionGateTick', () => {
+  it('opens inside a window, end exclusive', () => {
+    const tick = gate([{ start: '09:30', end: '16:00' }]);
+    expect(tick.isOpen(utc(19, 9, 29))).toBe(false);
+    expect(tick.isOpen(utc(19, 9, 30))).toBe(true);
+    expect(tick.isOpen(utc(19, 16, 0))).toBe(false);
+  });
+
+  it('runs overnight windows into the next morning of the opening day', () => {
+    // 2026-10-23 is a Friday
+    const tick = gate([{ start: '22:00', end: '02:00', days: [5] }]);
+    expect(tick.isOpen(utc(23, 23))).toBe(true);
+    expect(tick.isOpen(utc(24, 1))).toBe(true);
+    expect(tick.isOpen(utc(24, 23))).toBe(false);
+    expect(tick.isOpen(utc(23, 1))).toBe(false);
+  });
+
+  it('takes 00:00-24:00 as a full day', () => {
+    const tick = gate([{ start: '00:00', end: '24:00' }]);
+    expect(tick.isOpen(utc(19, 0))).toBe(true);
+    expect(tick.isOpen(utc(19, 23, 59))).toBe(true);
+  });
+
+  it('rejects empty and malformed windows', () => {
+    expect(() => gate([{ start: '09:00', end: '09:00' }])).toThrow(/empty/);
+    expect(() => gate([{ start: '9am', end: '17:00' }])).toThrow(/expected HH:MM/);
+  });
+});
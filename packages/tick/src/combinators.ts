@@ -0,0 +1,289 @@
+import { EventEmitter } from 'events';
+import { systemClock, type Clock, type TimerHandle } from '@aadenman/clock';
+import { assertTimeZone, zonedTime } from './zoned-time.js';
+import type { AllOfTickEvent, Tick, TickCallback, TickEvent } from './types.js';
+
+// Base for ticks that wrap other ticks: starts and stops them, and routes their events
+abstract class CompositeTick extends EventEmitter implements Tick {
+  private running = false;
+  private forwarders: TickCallback[];
+
+  constructor(
+    protected readonly ticks: Tick[],
+    protected readonly clock: Clock = systemClock
+  ) {
+    super();
+    if (ticks.length === 0) {
+      throw new Error(`${new.target.name} needs at least one tick`);
+    }
+    this.forwarders = ticks.map((_, index) => (event: TickEvent) => this.handle(event, index));
+  }
+
+  start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    this.ticks.forEach((tick, i) => {
+      tick.onTick(this.forwarders[i]);
+      tick.start();
+    });
+  }
+
+  stop(): void {
+    if (!this.running) return;
+
+    this.running = false;
+    this.ticks.forEach((tick, i) => {
+      tick.stop();
+      tick.offTick(this.forwarders[i]);
+    });
+    this.reset();
+  }
+
+  onTick(callback: TickCallback): void {
+    this.on('tick', callback);
+  }
+
+  offTick(callback: TickCallback): void {
+    this.off('tick', callback);
+  }
+
+  protected isRunning(): boolean {
+    return this.running;
+  }
+
+  protected fire(event: TickEvent): void {
+    this.emit('tick', event);
+  }
+
+  protected abstract handle(event: TickEvent, index: number): void;
+
+  // Clears pending state and timers on stop
+  protected reset(): void {}
+}
+
+// Fires whenever any of the ticks fires, passing its event through
+export class AnyOfTick extends CompositeTick {
+  constructor(...ticks: Tick[]) {
+    super(ticks);
+  }
+
+  protected handle(event: TickEvent): void {
+    this.fire(event);
+  }
+}
+
+export interface AllOfTickOptions {
+  // Only count events this recent; older ones must fire again (default: no limit)
+  windowMs?: number;
+  clock?: Clock;
+}
+
+// Fires once every tick has fired since the last time it fired
+export class AllOfTick extends CompositeTick {
+  private latest: (TickEvent | undefined)[];
+  private windowMs?: number;
+
+  constructor(ticks: Tick[], options: AllOfTickOptions = {}) {
+    super(ticks, options.clock);
+    this.latest = new Array(ticks.length).fill(undefined);
+    this.windowMs = options.windowMs;
+  }
+
+  protected handle(event: TickEvent, index: number): void {
+    this.latest[index] = event;
+
+    const now = this.clock.now();
+    const ready = this.latest.every(
+      (e) => e !== undefined && (this.windowMs === undefined || now - e.timestamp <= this.windowMs)
+    );
+    if (!ready) return;
+
+    const allOf: AllOfTickEvent = {
+      source: 'all-of',
+      timestamp: now,
+      reason: 'all-of',
+      payload: { events: this.latest as TickEvent[] },
+    };
+    this.latest = new Array(this.ticks.length).fill(undefined);
+    this.fire(allOf);
+  }
+
+  protected reset(): void {
+    this.latest = new Array(this.ticks.length).fill(undefined);
+  }
+}
+
+export interface ThrottleTickOptions {
+  intervalMs: number;
+  // Fire the last suppressed event when the interval ends (default false: drop it)
+  trailing?: boolean;
+  clock?: Clock;
+}
+
+// Passes at most one event per interval
+export class ThrottleTick extends CompositeTick {
+  private intervalMs: number;
+  private trailing: boolean;
+  private lastFireAt = -Infinity;
+  private pending: TickEvent | null = null;
+  private timer: TimerHandle | null = null;
+
+  constructor(tick: Tick, options: ThrottleTickOptions) {
+    super([tick], options.clock);
+    this.intervalMs = options.intervalMs;
+    this.trailing = options.trailing ?? false;
+  }
+
+  protected handle(event: TickEvent): void {
+    const wait = this.lastFireAt + this.intervalMs - this.clock.now();
+    if (wait <= 0) {
+      this.pass(event);
+      return;
+    }
+
+    if (!this.trailing) return;
+
+    this.pending = event;
+    if (!this.timer) {
+      this.timer = this.clock.setTimeout(() => {
+        this.timer = null;
+        if (this.pending && this.isRunning()) this.pass(this.pending);
+      }, wait);
+    }
+  }
+
+  private pass(event: TickEvent): void {
+    this.pending = null;
+    this.lastFireAt = this.clock.now();
+    this.fire(event);
+  }
+
+  protected reset(): void {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = null;
+  }
+}
+
+export interface DebounceTickOptions {
+  // Quiet period after the last event before it is passed on
+  waitMs: number;
+  // Pass the latest event after this long even if events keep coming
+  maxWaitMs?: number;
+  clock?: Clock;
+}
+
+// Passes the latest event once the source has been quiet for waitMs
+export class DebounceTick extends CompositeTick {
+  private waitMs: number;
+  private maxWaitMs?: number;
+  private pending: TickEvent | null = null;
+  private firstPendingAt = 0;
+  private timer: TimerHandle | null = null;
+
+  constructor(tick: Tick, options: DebounceTickOptions) {
+    super([tick], options.clock);
+    this.waitMs = options.waitMs;
+    this.maxWaitMs = options.maxWaitMs;
+  }
+
+  protected handle(event: TickEvent): void {
+    const now = this.clock.now();
+    if (!this.pending) this.firstPendingAt = now;
+    this.pending = event;
+
+    let delay = this.waitMs;
+    if (this.maxWaitMs !== undefined) {
+      delay = Math.min(delay, this.firstPendingAt + this.maxWaitMs - now);
+    }
+
+    if (this.timer) this.clock.clearTimeout(this.timer);
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      const pending = this.pending;
+      this.pending = null;
+      if (pending && this.isRunning()) this.fire(pending);
+    }, Math.max(0, delay));
+  }
+
+  protected reset(): void {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = null;
+  }
+}
+
+export interface SessionWindow {
+  // Local time of day, `HH:MM`; a window whose end is before its start runs overnight.
+  // Equal start and end are rejected: write a full day as `00:00`-`24:00`
+  start: string;
+  end: string;
+  // Days the window opens on, 0 = Sunday (default every day)
+  days?: number[];
+}
+
+export interface SessionGateTickOptions {
+  sessions: SessionWindow[];
+  // IANA time zone the windows are in (default UTC)
+  timeZone?: string;
+  clock?: Clock;
+}
+
+// Passes events only while inside one of the session windows
+export class SessionGateTick extends CompositeTick {
+  private sessions: { start: number; end: number; days?: Set<number> }[];
+  private timeZone?: string;
+
+  constructor(tick: Tick, options: SessionGateTickOptions) {
+    super([tick], options.clock);
+    if (options.timeZone) assertTimeZone(options.timeZone);
+
+    this.timeZone = options.timeZone;
+    this.sessions = options.sessions.map((session) => {
+      const start = parseTimeOfDay(session.start);
+      const end = parseTimeOfDay(session.end);
+      if (start === end) {
+        throw new Error(`Session ${session.start}-${session.end} is empty; use 00:00-24:00 for a full day`);
+      }
+      return { start, end, days: session.days ? new Set(session.days) : undefined };
+    });
+  }
+
+  isOpen(timestamp = this.clock.now()): boolean {
+    const t = zonedTime(timestamp, this.timeZone);
+    const minute = t.hour * 60 + t.minute;
+    const yesterday = (t.weekday + 6) % 7;
+
+    return this.sessions.some(({ start, end, days }) => {
+      if (start <= end) {
+        return minute >= start && minute < end && (!days || days.has(t.weekday));
+      }
+      // Overnight: the evening part belongs to today's session, the morning part to yesterday's
+      if (minute >= start) return !days || days.has(t.weekday);
+      if (minute < end) return !days || days.has(yesterday);
+      return false;
+    });
+  }
+
+  protected handle(event: TickEvent): void {
+    if (this.isOpen(event.timestamp)) {
+      this.fire(event);
+    }
+  }
+}
+
+function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  const hours = Number(match?.[1]);
+  const minutes = Number(match?.[2]);
+
+  if (!match || hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    throw new Error(`Invalid session time "${value}", expected HH:MM`);
+  }
+  return hours * 60 + minutes;
+}
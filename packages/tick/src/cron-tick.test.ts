@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { VirtualClock } from '@aadenman/clock';
+import { CronTick, matchesCron, nextCronTime, parseCron } from './cron-tick.js';
+
+const utc = (...args: [number, number, number, number?, number?]) => Date.UTC(...args);
+
+describe('parseCron', () => {
+  it('parses lists, ranges, steps and names', () => {
+    const schedule = parseCron('*/15 9-17/4 1,15 JAN-MAR mon-fri');
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('folds 7 into Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow(/expected 5 fields/);
+    expect(() => parseCron('60 * * * *')).toThrow(/out of range/);
+    expect(() => parseCron('* * * * 5-1')).toThrow(/reversed/);
+    expect(() => parseCron('*/0 * * * *')).toThrow(/step/);
+  });
+
+  it('rejects dates that never occur', () => {
+    expect(() => parseCron('0 0 31 2 *')).toThrow(/never occurs/);
+    expect(() => parseCron('0 0 31 4,6,9,11 *')).toThrow(/never occurs/);
+    expect(() => parseCron('0 0 30 2,4 *')).not.toThrow();
+    // A restricted day of week can always match
+    expect(() => parseCron('0 0 31 2 MON')).not.toThrow();
+  });
+
+  it('treats day fields covering every value as unrestricted', () => {
+    expect(parseCron('0 12 */1 * MON')).toMatchObject({ anyDayOfMonth: true, anyDayOfWeek: false });
+    expect(parseCron('0 12 1-31 * 0-6')).toMatchObject({ anyDayOfMonth: true, anyDayOfWeek: true });
+    expect(parseCron('0 12 13 * 0-7')).toMatchObject({ anyDayOfMonth: false, anyDayOfWeek: true });
+    expect(parseCron('0 12 */2 * 1-5')).toMatchObject({ anyDayOfMonth: false, anyDayOfWeek: false });
+  });
+});
+
+describe('matchesCron', () => {
+  // 2026-10-19 is a Monday, 2026-10-13 a Tuesday
+  it('matches only the day of week when the day of month is */1', () => {
+    const schedule = parseCron('0 12 */1 * MON');
+    expect(matchesCron(schedule, utc(2026, 9, 19, 12))).toBe(true);
+    expect(matchesCron(schedule, utc(2026, 9, 20, 12))).toBe(false);
+  });
+
+  it('matches either day field when both are restricted', () => {
+    const schedule = parseCron('0 0 13 * MON');
+    expect(matchesCron(schedule, utc(2026, 9, 13))).toBe(true);
+    expect(matchesCron(schedule, utc(2026, 9, 19))).toBe(true);
+    expect(matchesCron(schedule, utc(2026, 9, 20))).toBe(false);
+  });
+});
+
+describe('nextCronTime', () => {
+  it('finds the next minute strictly after the given time', () => {
+    const schedule = parseCron('*/15 * * * *');
+    expect(nextCronTime(schedule, utc(2026, 9, 19, 10, 0))).toBe(utc(2026, 9, 19, 10, 15));
+    expect(nextCronTime(schedule, utc(2026, 9, 19, 10, 7))).toBe(utc(2026, 9, 19, 10, 15));
+  });
+
+  it('finds February 29th across a skipped leap year', () => {
+    expect(nextCronTime(parseCron('0 0 29 2 *'), utc(2097, 0, 1))).toBe(utc(2104, 1, 29));
+  });
+
+  it('steps over DST changes in the given time zone', () => {
+    const zone = 'America/New_York';
+    // Spring forward on 2026-03-08 and fall back on 2026-11-01
+    expect(nextCronTime(parseCron('30 0 9 3 *'), utc(2026, 2, 1), zone)).toBe(utc(2026, 2, 9, 4, 30));
+    expect(nextCronTime(parseCron('30 0 2 11 *'), utc(2026, 9, 1), zone)).toBe(utc(2026, 10, 2, 5, 30));
+    expect(nextCronTime(parseCron('0 9 * * *'), utc(2026, 2, 8, 3), zone)).toBe(utc(2026, 2, 8, 13));
+    expect(nextCronTime(parseCron('0 9 * * *'), utc(2026, 10, 1, 3), zone)).toBe(utc(2026, 10, 1, 14));
+  });
+});
+
+describe('CronTick', () => {
+  it('fires on schedule with the scheduled time in the payload', async () => {
+    const clock = new VirtualClock(utc(2026, 9, 19, 10, 1));
+    const tick = new CronTick({ expression: '*/15 * * * *', clock });
+    const scheduled: number[] = [];
+    tick.onTick((event) => {
+      if (event.reason === 'cron') scheduled.push(event.payload.scheduledTime);
+    });
+
+    tick.start();
+    await clock.advanceTo(utc(2026, 9, 19, 10, 45));
+    tick.stop();
+
+    expect(scheduled).toEqual([utc(2026, 9, 19, 10, 15), utc(2026, 9, 19, 10, 30), utc(2026, 9, 19, 10, 45)]);
+    expect(clock.pendingTimers()).toBe(0);
+  });
+});
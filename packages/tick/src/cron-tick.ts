@@ -0,0 +1,253 @@
+import { EventEmitter } from 'events';
+import { systemClock, type Clock, type TimerHandle } from '@aadenman/clock';
+import { assertTimeZone, zonedTime } from './zoned-time.js';
+import type { CronTickEvent, Tick, TickCallback } from './types.js';
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, either may match
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+// Setting a timer further out than this overflows Node's 32-bit delay
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Long enough for February 29th across a skipped leap year (e.g. 2096 to 2104)
+const SEARCH_LIMIT_MS = 9 * 366 * DAY_MS;
+// Longest each month gets, February in a leap year
+const MONTH_DAYS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Parses a 5-field cron expression: minute hour day-of-month month day-of-week.
+// Supports `*`, lists, ranges, `/` steps and JAN-DEC / SUN-SAT names; 7 is also Sunday.
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELDS[i], expression)
+  );
+
+  // Fold 7 into 0 so Sunday has one representation
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  // A field is unrestricted when it covers every value, however it is written (`*/1`, `0-6`)
+  const anyDayOfMonth = daysOfMonth.size === 31;
+  const anyDayOfWeek = daysOfWeek.size === 7;
+
+  // Only a day of month on its own can rule out every date, e.g. `0 0 31 2 *`
+  if (anyDayOfWeek && !Array.from(months).some((month) =>
+    Array.from(daysOfMonth).some((day) => day <= MONTH_DAYS[month - 1])
+  )) {
+    throw new Error(`Invalid cron expression "${expression}": day of month never occurs in the given months`);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth,
+    anyDayOfWeek,
+  };
+}
+
+function parseField(
+  field: string,
+  spec: (typeof FIELDS)[number],
+  expression: string
+): Set<number> {
+  const values = new Set<number>();
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid cron expression "${expression}": ${spec.name} ${reason}`);
+  };
+
+  const parseValue = (token: string): number => {
+    const index = spec.names?.indexOf(token.toUpperCase()) ?? -1;
+    const value = index >= 0 ? index + spec.nameOffset! : Number(token);
+    if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+      fail(`value "${token}" is out of range ${spec.min}-${spec.max}`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepToken] = part.split('/');
+    const step = stepToken === undefined ? 1 : Number(stepToken);
+    if (!Number.isInteger(step) || step < 1) fail(`step "${stepToken}" is invalid`);
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from);
+      end = parseValue(to);
+      if (start > end) fail(`range "${range}" is reversed`);
+    } else {
+      start = parseValue(range);
+      // `5/15` means every 15 starting at 5
+      end = stepToken === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function matchesCron(schedule: CronSchedule, timestamp: number, timeZone?: string): boolean {
+  const t = zonedTime(timestamp, timeZone);
+  return (
+    schedule.minutes.has(t.minute) &&
+    schedule.hours.has(t.hour) &&
+    schedule.months.has(t.month) &&
+    dayMatches(schedule, t.day, t.weekday)
+  );
+}
+
+function dayMatches(schedule: CronSchedule, day: number, weekday: number): boolean {
+  const domMatch = schedule.daysOfMonth.has(day);
+  const dowMatch = schedule.daysOfWeek.has(weekday);
+
+  if (schedule.anyDayOfMonth) return dowMatch;
+  if (schedule.anyDayOfWeek) return domMatch;
+  return domMatch || dowMatch;
+}
+
+// First matching minute strictly after `after`. Days that cannot match are
+// skipped whole, so a sparse schedule costs a couple of lookups per day
+export function nextCronTime(schedule: CronSchedule, after: number, timeZone?: string): number {
+  let time = Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = time + SEARCH_LIMIT_MS;
+
+  while (time <= limit) {
+    const t = zonedTime(time, timeZone);
+
+    if (!schedule.months.has(t.month) || !dayMatches(schedule, t.day, t.weekday)) {
+      // Jump to the next local midnight. A DST shift earlier in the day could make
+      // that overshoot, so far from midnight stop an hour short and finish from there
+      const minutesToMidnight = (24 - t.hour) * 60 - t.minute;
+      time += (minutesToMidnight > 120 ? minutesToMidnight - 60 : minutesToMidnight) * MINUTE_MS;
+      continue;
+    }
+    if (!schedule.hours.has(t.hour)) {
+      time += (60 - t.minute) * MINUTE_MS;
+      continue;
+    }
+    if (!schedule.minutes.has(t.minute)) {
+      time += MINUTE_MS;
+      continue;
+    }
+    return time;
+  }
+
+  throw new Error(`Cron expression "${schedule.expression}" never matches`);
+}
+
+export interface CronTickConfig {
+  expression: string;
+  // IANA time zone the expression is evaluated in, e.g. `America/New_York` (default UTC)
+  timeZone?: string;
+  clock?: Clock;
+}
+
+export class CronTick extends EventEmitter implements Tick {
+  private schedule: CronSchedule;
+  private timeZone?: string;
+  private clock: Clock;
+  private timer: TimerHandle | null = null;
+  private running = false;
+
+  constructor(config: CronTickConfig | string) {
+    super();
+    const { expression, timeZone, clock }: CronTickConfig =
+      typeof config === 'string' ? { expression: config } : config;
+
+    if (timeZone) assertTimeZone(timeZone);
+    this.schedule = parseCron(expression);
+    this.timeZone = timeZone;
+    this.clock = clock ?? systemClock;
+  }
+
+  start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    this.scheduleNext(this.clock.now());
+  }
+
+  stop(): void {
+    this.running = false;
+
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  onTick(callback: TickCallback): void {
+    this.on('tick', callback);
+  }
+
+  offTick(callback: TickCallback): void {
+    this.off('tick', callback);
+  }
+
+  getNextTime(after = this.clock.now()): number {
+    return nextCronTime(this.schedule, after, this.timeZone);
+  }
+
+  private scheduleNext(after: number): void {
+    if (!this.running) return;
+
+    const scheduledTime = this.getNextTime(after);
+    this.arm(scheduledTime);
+  }
+
+  private arm(scheduledTime: number): void {
+    const delay = scheduledTime - this.clock.now();
+
+    // Long gaps are waited out in chunks
+    if (delay > MAX_TIMER_DELAY_MS) {
+      this.timer = this.clock.setTimeout(() => this.arm(scheduledTime), MAX_TIMER_DELAY_MS);
+      return;
+    }
+
+    this.timer = this.clock.setTimeout(() => {
+      const event: CronTickEvent = {
+        source: `cron:${this.schedule.expression}`,
+        timestamp: this.clock.now(),
+        reason: 'cron',
+        payload: { expression: this.schedule.expression, scheduledTime, timeZone: this.timeZone },
+      };
+      this.emit('tick', event);
+      this.scheduleNext(scheduledTime);
+    }, Math.max(0, delay));
+  }
+}
@@ -0,0 +1,38 @@
+import type { TickEvent } from './types.js';
+
+// One-line summary of why a tick fired, for logs and agent prompts
+export function describeTickEvent(event: TickEvent): string {
+  switch (event.reason) {
+    case 'interval':
+      return `Timer (every ${event.payload.intervalMs / 1000}s)`;
+
+    case 'threshold':
+    case 'max-interval': {
+      const { symbol, price, referencePrice, changeBps, thresholdBps, thresholdAbs } = event.payload;
+      const threshold = thresholdBps !== undefined ? `${thresholdBps} bps` : `$${thresholdAbs}`;
+      const move =
+        `${symbol} ${changeBps >= 0 ? '+' : ''}${changeBps.toFixed(1)} bps ` +
+        `($${referencePrice.toFixed(2)} -> $${price.toFixed(2)})`;
+
+      return event.reason === 'threshold'
+        ? `Price move beyond ${threshold}: ${move}`
+        : `No ${threshold} move within the max interval: ${move}`;
+    }
+
+    case 'candle-close': {
+      const { symbol, interval, open, high, low, close, volume } = event.payload.candle;
+      return (
+        `${interval} candle closed for ${symbol}: ` +
+        `O ${open.toFixed(2)} H ${high.toFixed(2)} L ${low.toFixed(2)} C ${close.toFixed(2)} V ${volume}`
+      );
+    }
+
+    case 'cron': {
+      const { expression, timeZone } = event.payload;
+      return `Schedule "${expression}"${timeZone ? ` (${timeZone})` : ''}`;
+    }
+
+    case 'all-of':
+      return `All of: ${event.payload.events.map(describeTickEvent).join('; ')}`;
+  }
+}
@@ -1,2 +1,7 @@
 export * from './types.js';
 export * from './timer-tick.js';
+export * from './price-change-tick.js';
+export * from './candle-tick.js';
+export * from './describe.js';
+export * from './cron-tick.js';
+export * from './combinators.js';
@@ -0,0 +1,167 @@
+import { EventEmitter } from 'events';
+import { systemClock, type Clock, type TimerHandle } from '@aadenman/clock';
+import type { PriceMoveTickEvent, PriceSource, PriceUpdate, Tick, TickCallback } from './types.js';
+
+export interface PriceChangeTickConfig {
+  source: PriceSource;
+  symbol: string;
+  // Move from the price at the last fire needed to fire again; set one of the two
+  thresholdBps?: number;
+  thresholdAbs?: number;
+  // Never fire more often than this; a move inside the window fires when it ends
+  minIntervalMs?: number;
+  // Fire anyway after this long without a move
+  maxIntervalMs?: number;
+  clock?: Clock;
+}
+
+// Fires when price moves more than a threshold from the price at the previous fire
+export class PriceChangeTick extends EventEmitter implements Tick {
+  private source: PriceSource;
+  private symbol: string;
+  private thresholdBps?: number;
+  private thresholdAbs?: number;
+  private minIntervalMs: number;
+  private maxIntervalMs?: number;
+  private clock: Clock;
+
+  private running = false;
+  private referencePrice: number | null = null;
+  private lastPrice: number | null = null;
+  private lastFireAt = 0;
+  private pendingTimer: TimerHandle | null = null;
+  private maxTimer: TimerHandle | null = null;
+
+  constructor(config: PriceChangeTickConfig) {
+    super();
+
+    if ((config.thresholdBps === undefined) === (config.thresholdAbs === undefined)) {
+      throw new Error('PriceChangeTick needs exactly one of thresholdBps or thresholdAbs');
+    }
+
+    this.source = config.source;
+    this.symbol = config.symbol;
+    this.thresholdBps = config.thresholdBps;
+    this.thresholdAbs = config.thresholdAbs;
+    this.minIntervalMs = config.minIntervalMs ?? 0;
+    this.maxIntervalMs = config.maxIntervalMs;
+    this.clock = config.clock ?? systemClock;
+  }
+
+  start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    this.source.onPrice(this.symbol, this.handlePrice);
+    this.scheduleMax();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.source.offPrice(this.symbol, this.handlePrice);
+
+    if (this.pendingTimer) {
+      this.clock.clearTimeout(this.pendingTimer);
+      this.pendingTimer = null;
+    }
+    if (this.maxTimer) {
+      this.clock.clearTimeout(this.maxTimer);
+      this.maxTimer = null;
+    }
+  }
+
+  onTick(callback: TickCallback): void {
+    this.on('tick', callback);
+  }
+
+  offTick(callback: TickCallback): void {
+    this.off('tick', callback);
+  }
+
+  getReferencePrice(): number | null {
+    return this.referencePrice;
+  }
+
+  private handlePrice = (update: PriceUpdate): void => {
+    if (!this.running || !(update.price > 0)) return;
+
+    this.lastPrice = update.price;
+
+    // The first price only sets the reference
+    if (this.referencePrice === null) {
+      this.referencePrice = update.price;
+      return;
+    }
+
+    if (!this.thresholdCrossed() || this.pendingTimer) return;
+
+    const wait = this.lastFireAt + this.minIntervalMs - this.clock.now();
+    if (wait <= 0) {
+      this.fire('threshold');
+      return;
+    }
+
+    // Re-check at the end of the window; the move may have reverted by then
+    this.pendingTimer = this.clock.setTimeout(() => {
+      this.pendingTimer = null;
+      if (this.running && this.thresholdCrossed()) {
+        this.fire('threshold');
+      }
+    }, wait);
+  };
+
+  private thresholdCrossed(): boolean {
+    if (this.referencePrice === null || this.lastPrice === null) return false;
+
+    const move = Math.abs(this.lastPrice - this.referencePrice);
+    if (this.thresholdAbs !== undefined) {
+      return move >= this.thresholdAbs;
+    }
+    return (move / this.referencePrice) * 10_000 >= this.thresholdBps!;
+  }
+
+  private fire(reason: PriceMoveTickEvent['reason']): void {
+    if (this.pendingTimer) {
+      this.clock.clearTimeout(this.pendingTimer);
+      this.pendingTimer = null;
+    }
+
+    const price = this.lastPrice!;
+    const referencePrice = this.referencePrice ?? price;
+    const event: PriceMoveTickEvent = {
+      source: `price-change:${this.symbol}`,
+      timestamp: this.clock.now(),
+      reason,
+      payload: {
+        symbol: this.symbol,
+        price,
+        referencePrice,
+        changeBps: ((price - referencePrice) / referencePrice) * 10_000,
+        thresholdBps: this.thresholdBps,
+        thresholdAbs: this.thresholdAbs,
+      },
+    };
+
+    this.referencePrice = price;
+    this.lastFireAt = event.timestamp;
+    this.scheduleMax();
+    this.emit('tick', event);
+  }
+
+  private scheduleMax(): void {
+    if (this.maxTimer) {
+      this.clock.clearTimeout(this.maxTimer);
+      this.maxTimer = null;
+    }
+    if (!this.running || this.maxIntervalMs === undefined) return;
+
+    this.maxTimer = this.clock.setTimeout(() => {
+      this.maxTimer = null;
+      if (this.lastPrice === null) {
+        this.scheduleMax();
+        return;
+      }
+      this.fire('max-interval');
+    }, this.maxIntervalMs);
+  }
+}
@@ -1,11 +1,15 @@
 import { EventEmitter } from 'events';
-import type { Tick, TickCallback } from './types.js';
+import { systemClock, type Clock, type TimerHandle } from '@aadenman/clock';
+import type { Tick, TickCallback, IntervalTickEvent } from './types.js';
 
 export class TimerTick extends EventEmitter implements Tick {
-  private timer: NodeJS.Timeout | null = null;
+  private timer: TimerHandle | null = null;
   private running = false;
 
-  constructor(private intervalMs: number) {
+  constructor(
+    private intervalMs: number,
+    private clock: Clock = systemClock
+  ) {
     super();
   }
 
@@ -20,7 +24,7 @@ export class TimerTick extends EventEmitter implements Tick {
     this.running = false;
 
     if (this.timer) {
-      clearTimeout(this.timer);
+      this.clock.clearTimeout(this.timer);
       this.timer = null;
     }
   }
@@ -36,8 +40,14 @@ export class TimerTick extends EventEmitter implements Tick {
   private scheduleNext(): void {
     if (!this.running) return;
 
-    this.timer = setTimeout(() => {
-      this.emit('tick');
+    this.timer = this.clock.setTimeout(() => {
+      const event: IntervalTickEvent = {
+        source: `timer:${this.intervalMs}ms`,
+        timestamp: this.clock.now(),
+        reason: 'interval',
+        payload: { intervalMs: this.intervalMs },
+      };
+      this.emit('tick', event);
       this.scheduleNext();
     }, this.intervalMs);
   }
@@ -1,6 +1,61 @@
 import { EventEmitter } from 'events';
 
-export type TickCallback = () => void | Promise<void>;
+interface TickEventBase {
+  // Name of the tick that fired, e.g. `timer:5000ms` or `candle:PERP_BTC_USDC:1m`
+  source: string;
+  timestamp: number;
+}
+
+export interface IntervalTickEvent extends TickEventBase {
+  reason: 'interval';
+  payload: { intervalMs: number };
+}
+
+export interface PriceMovePayload {
+  symbol: string;
+  price: number;
+  // Price at the previous fire (or the first price seen)
+  referencePrice: number;
+  changeBps: number;
+  thresholdBps?: number;
+  thresholdAbs?: number;
+}
+
+export interface PriceMoveTickEvent extends TickEventBase {
+  // `max-interval` fires without a threshold crossing after maxIntervalMs of quiet
+  reason: 'threshold' | 'max-interval';
+  payload: PriceMovePayload;
+}
+
+export interface CandleCloseTickEvent extends TickEventBase {
+  reason: 'candle-close';
+  payload: {
+    candle: Candle;
+    // Recent closed candles, oldest first and ending with `candle`, when configured
+    candles?: Candle[];
+  };
+}
+
+export interface CronTickEvent extends TickEventBase {
+  reason: 'cron';
+  payload: { expression: string; scheduledTime: number; timeZone?: string };
+}
+
+export interface AllOfTickEvent extends TickEventBase {
+  reason: 'all-of';
+  // Latest event from each source, in source order
+  payload: { events: TickEvent[] };
+}
+
+export type TickEvent =
+  | IntervalTickEvent
+  | PriceMoveTickEvent
+  | CandleCloseTickEvent
+  | CronTickEvent
+  | AllOfTickEvent;
+export type TickReason = TickEvent['reason'];
+
+export type TickCallback = (event: TickEvent) => void | Promise<void>;
 
 export interface Tick extends EventEmitter {
   start(): void;
@@ -8,3 +63,34 @@ export interface Tick extends EventEmitter {
   onTick(callback: TickCallback): void;
   offTick(callback: TickCallback): void;
 }
+
+export interface PriceUpdate {
+  symbol: string;
+  price: number;
+  timestamp: number;
+  volume?: number;
+}
+
+export type PriceUpdateCallback = (update: PriceUpdate) => void;
+
+// Anything that streams prices per symbol, e.g. the connector's PriceFeed
+export interface PriceSource {
+  onPrice(symbol: string, callback: PriceUpdateCallback): void;
+  offPrice(symbol: string, callback: PriceUpdateCallback): void;
+}
+
+export type CandleInterval = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '12h' | '1d';
+
+// Same shape as the connector's kline Candle, so REST history can seed a CandleTick
+export interface Candle {
+  symbol: string;
+  interval: CandleInterval;
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type CandleCallback = (candle: Candle) => void | Promise<void>;
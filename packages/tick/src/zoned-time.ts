@@ -0,0 +1,51 @@
+export interface ZonedTime {
+  year: number;
+  month: number; // 1-12
+  day: number; // 1-31
+  weekday: number; // 0 = Sunday
+  hour: number;
+  minute: number;
+}
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+// Wall-clock fields of a timestamp in an IANA time zone (UTC when omitted)
+export function zonedTime(timestamp: number, timeZone = 'UTC'): ZonedTime {
+  const parts: Record<string, string> = {};
+  for (const part of formatter(timeZone).formatToParts(timestamp)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS[parts.weekday],
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+}
+
+// Throws a RangeError for unknown zones
+export function assertTimeZone(timeZone: string): void {
+  formatter(timeZone);
+}
@@ -0,0 +1,511 @@
+import { ethers } from "ethers";
+import fetch from "node-fetch";
+import * as path from "path";
+import { parseArgs } from "util";
+import { fileURLToPath } from "url";
+import {
+  OrderlyKeystore,
+  generateKeyPair,
+  signRequest,
+  type KeystoreProfile,
+  type OrderlySigner,
+} from "@aadenman/orderly-connector";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+type Network = "mainnet" | "testnet";
+
+const NETWORKS: Record<Network, { baseUrl: string; wsUrl: string; chainId: number }> = {
+  mainnet: {
+    baseUrl: "https://api-evm.orderly.org",
+    wsUrl: "wss://ws-evm.orderly.org/ws/stream",
+    chainId: 42161, // Arbitrum One
+  },
+  testnet: {
+    baseUrl: "https://testnet-api-evm.orderly.org",
+    wsUrl: "wss://testnet-ws-evm.orderly.org/ws/stream",
+    chainId: 421614, // Arbitrum Sepolia
+  },
+};
+
+const DEFAULT_BROKER_ID = "woofi_pro";
+const DEFAULT_PROFILES_FILE = path.join(__dirname, "..", ".orderly-profiles.json");
+const VERIFYING_CONTRACT = "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC";
+
+const REGISTER_TYPES = {
+  Registration: [
+    { name: "brokerId", type: "string" },
+    { name: "chainId", type: "uint256" },
+    { name: "timestamp", type: "uint64" },
+    { name: "registrationNonce", type: "uint256" },
+  ],
+};
+
+const ADD_KEY_TYPES = {
+  AddOrderlyKey: [
+    { name: "brokerId", type: "string" },
+    { name: "chainId", type: "uint256" },
+    { name: "orderlyKey", type: "string" },
+    { name: "scope", type: "string" },
+    { name: "timestamp", type: "uint64" },
+    { name: "expiration", type: "uint64" },
+  ],
+};
+
+const KEY_SCOPES = ["read", "trading", "asset"];
+
+// Stored in the keystore; the secret key is encrypted separately
+interface Profile extends KeystoreProfile {
+  network: Network;
+  baseUrl: string;
+  wsUrl: string;
+  brokerId: string;
+  chainId: number;
+  address?: string;
+  accountId?: string;
+  publicKey?: string;
+  scope?: string;
+  expiration?: number;
+}
+
+interface Options {
+  network: Network;
+  baseUrl: string;
+  wsUrl: string;
+  brokerId: string;
+  chainId: number;
+  profileName: string;
+  keystore: OrderlyKeystore;
+  scope: string;
+  expiresDays: number;
+  key?: string;
+}
+
+const USAGE = `Usage: pnpm account <command> [options]
+
+Commands:
+  register      Register the wallet's account with the broker
+  add-key       Generate an Orderly key, add it to the account and save it to the profile
+  list-keys     List the account's Orderly keys
+  revoke-key    Revoke --key, or the profile's own key when omitted
+  rotate-key    Add a new key to the profile, then revoke the old one
+  info          Show account info for the profile
+  list          List the profiles in the keystore
+  env           Print the profile as plaintext ORDERLY_* environment variables
+
+Options:
+  --network <mainnet|testnet>   Default: testnet, or the profile's network
+  --broker <id>                 Default: ${DEFAULT_BROKER_ID}
+  --chain-id <id>               Default: 42161 (mainnet) / 421614 (testnet)
+  --base-url <url>              Override the network's REST URL
+  --profile <name>              Default: default
+  --profiles-file <path>        Encrypted keystore. Default: .orderly-profiles.json in the repo root
+  --scope <scopes>              Key scope for add-key/rotate-key, comma separated (${KEY_SCOPES.join(", ")}). Default: read,trading
+  --expires-days <days>         Key lifetime for add-key/rotate-key, max 365. Default: 365
+  --key <ed25519:...>           Key to revoke
+
+Wallet commands (register, add-key, rotate-key) read EOA_PRIVATE_KEY from the environment.
+Commands that store or use an Orderly key read ORDERLY_KEYSTORE_PASSWORD.
+`;
+
+// Profiles
+
+function requirePassword(): string {
+  const password = process.env.ORDERLY_KEYSTORE_PASSWORD || "";
+
+  if (!password) {
+    throw new Error("ORDERLY_KEYSTORE_PASSWORD environment variable required for this command");
+  }
+
+  return password;
+}
+
+function getProfile(options: Options): Profile | undefined {
+  return options.keystore.getProfile(options.profileName) as Profile | undefined;
+}
+
+// Passing `secretKey` replaces the stored key; null removes it
+async function saveProfile(options: Options, profile: Profile, secretKey?: string | null): Promise<void> {
+  const secret = secretKey === undefined ? undefined : { secretKey, password: requirePassword() };
+  await options.keystore.setProfile(options.profileName, profile, secret);
+  console.log(`Profile "${options.profileName}" saved to ${options.keystore.path}\n`);
+}
+
+function baseProfile(options: Options, existing?: Profile): Profile {
+  return {
+    ...existing,
+    network: options.network,
+    baseUrl: options.baseUrl,
+    wsUrl: options.wsUrl,
+    brokerId: options.brokerId,
+    chainId: options.chainId,
+  };
+}
+
+async function requireSigner(options: Options): Promise<{ profile: Profile; signer: OrderlySigner }> {
+  const profile = getProfile(options);
+
+  if (!profile?.publicKey || !options.keystore.hasSecret(options.profileName)) {
+    throw new Error(`Profile "${options.profileName}" has no key; run add-key first`);
+  }
+
+  const signer = await options.keystore.getSigner(options.profileName, requirePassword());
+  return { profile, signer };
+}
+
+async function parseOptions(values: Record<string, string | undefined>): Promise<Options> {
+  const keystore = await OrderlyKeystore.open(path.resolve(values["profiles-file"] ?? DEFAULT_PROFILES_FILE));
+  const profileName = values.profile ?? "default";
+  const existing = keystore.getProfile(profileName) as Profile | undefined;
+
+  const network = (values.network ?? existing?.network ?? "testnet") as Network;
+  if (!NETWORKS[network]) {
+    throw new Error(`Unknown network "${network}", expected mainnet or testnet`);
+  }
+
+  const sameNetwork = existing?.network === network;
+  const defaults = NETWORKS[network];
+
+  const scope = values.scope ?? "read,trading";
+  for (const s of scope.split(",")) {
+    if (!KEY_SCOPES.includes(s)) {
+      throw new Error(`Unknown key scope "${s}", expected one of ${KEY_SCOPES.join(", ")}`);
+    }
+  }
+
+  const expiresDays = Number(values["expires-days"] ?? 365);
+  if (!(expiresDays > 0 && expiresDays <= 365)) {
+    throw new Error("--expires-days must be between 1 and 365");
+  }
+
+  return {
+    network,
+    baseUrl: values["base-url"] ?? (sameNetwork ? existing.baseUrl : defaults.baseUrl),
+    wsUrl: sameNetwork ? existing.wsUrl : defaults.wsUrl,
+    brokerId: values.broker ?? existing?.brokerId ?? DEFAULT_BROKER_ID,
+    chainId: Number(values["chain-id"] ?? (sameNetwork ? existing.chainId : defaults.chainId)),
+    profileName,
+    keystore,
+    scope,
+    expiresDays,
+    key: values.key,
+  };
+}
+
+// HTTP
+
+async function publicGet(options: Options, pathname: string): Promise<any> {
+  const res = await fetch(`${options.baseUrl}${pathname}`);
+
+  if (!res.ok) {
+    throw new Error(`GET ${pathname} failed: ${res.status} ${await res.text()}`);
+  }
+
+  return res.json();
+}
+
+async function walletPost(options: Options, pathname: string, body: unknown): Promise<any> {
+  const res = await fetch(`${options.baseUrl}${pathname}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  const data: any = await res.json().catch(() => ({}));
+  if (!res.ok && data.code === undefined) {
+    throw new Error(`POST ${pathname} failed: ${res.status}`);
+  }
+
+  return data;
+}
+
+// Requests signed with the profile's Orderly key
+async function signedRequest(
+  baseUrl: string,
+  signer: OrderlySigner,
+  method: "GET" | "POST",
+  pathname: string,
+  body?: unknown
+): Promise<any> {
+  const bodyStr = body ? JSON.stringify(body) : undefined;
+
+  const res = await fetch(`${baseUrl}${pathname}`, {
+    method,
+    headers: {
+      "Content-Type": method === "GET" ? "application/x-www-form-urlencoded" : "application/json",
+      ...(await signRequest(signer, method, pathname, bodyStr)),
+    },
+    body: bodyStr,
+  });
+
+  const data: any = await res.json().catch(() => ({}));
+  if (!res.ok || data.success === false) {
+    throw new Error(`${method} ${pathname} failed: ${res.status} ${data.message ?? JSON.stringify(data)}`);
+  }
+
+  return data.data;
+}
+
+// Wallet flows
+
+function requireWallet(): ethers.Wallet {
+  const privateKey = process.env.EOA_PRIVATE_KEY || "";
+
+  if (!privateKey) {
+    throw new Error("EOA_PRIVATE_KEY environment variable required for this command");
+  }
+
+  return new ethers.Wallet(privateKey);
+}
+
+function domain(options: Options) {
+  return {
+    name: "Orderly",
+    version: "1",
+    chainId: options.chainId,
+    verifyingContract: VERIFYING_CONTRACT,
+  };
+}
+
+async function getAccountId(options: Options, address: string): Promise<string> {
+  const data = await publicGet(options, `/v1/get_account?address=${address}&broker_id=${options.brokerId}`);
+  const accountId = data?.data?.account_id as string;
+
+  if (!accountId) {
+    throw new Error(`No account_id for address ${address} on broker ${options.brokerId}; run register first`);
+  }
+
+  return accountId;
+}
+
+async function register(options: Options, wallet: ethers.Wallet): Promise<string> {
+  const nonceData = await publicGet(options, "/v1/registration_nonce");
+  const nonce = nonceData?.data?.registration_nonce as string;
+
+  if (!nonce) {
+    throw new Error("No nonce in response");
+  }
+
+  const message = {
+    brokerId: options.brokerId,
+    chainId: options.chainId,
+    timestamp: Date.now(),
+    registrationNonce: nonce,
+  };
+
+  console.log("Signing registration...");
+  const signature = await wallet.signTypedData(domain(options), REGISTER_TYPES, message);
+
+  const data = await walletPost(options, "/v1/register_account", {
+    message,
+    signature,
+    userAddress: wallet.address,
+  });
+
+  // Account already exists
+  if (data.code === -1604) {
+    console.log("Account already exists, fetching account ID...");
+    return getAccountId(options, wallet.address);
+  }
+
+  const accountId = data?.data?.account_id as string;
+  if (!accountId) {
+    throw new Error(`Registration failed: ${JSON.stringify(data)}`);
+  }
+
+  return accountId;
+}
+
+async function addKey(
+  options: Options,
+  wallet: ethers.Wallet
+): Promise<{ publicKey: string; secretKey: string; expiration: number }> {
+  const { publicKey, secretKey } = generateKeyPair();
+
+  const now = Date.now();
+  const expiration = now + options.expiresDays * 24 * 60 * 60 * 1000;
+
+  const message = {
+    brokerId: options.brokerId,
+    chainId: options.chainId,
+    orderlyKey: `ed25519:${publicKey}`,
+    scope: options.scope,
+    timestamp: now,
+    expiration,
+  };
+
+  console.log(`Signing add key (scope: ${options.scope}, expires ${new Date(expiration).toISOString()})...`);
+  const signature = await wallet.signTypedData(domain(options), ADD_KEY_TYPES, message);
+
+  const data = await walletPost(options, "/v1/orderly_key", {
+    message,
+    signature,
+    userAddress: wallet.address,
+  });
+
+  if (data.success === false) {
+    throw new Error(`Add key failed: ${data.message ?? JSON.stringify(data)}`);
+  }
+
+  console.log(`Orderly key added: ed25519:${publicKey.substring(0, 20)}...\n`);
+  return { publicKey, secretKey, expiration };
+}
+
+// Commands
+
+async function cmdRegister(options: Options): Promise<void> {
+  const wallet = requireWallet();
+  const accountId = await register(options, wallet);
+  console.log(`Account ID: ${accountId}\n`);
+
+  await saveProfile(options, { ...baseProfile(options, getProfile(options)), address: wallet.address, accountId });
+}
+
+async function cmdAddKey(options: Options): Promise<void> {
+  requirePassword();
+  const wallet = requireWallet();
+  const accountId = await getAccountId(options, wallet.address);
+  const key = await addKey(options, wallet);
+
+  const existing = getProfile(options);
+  if (existing?.publicKey) {
+    console.log(`Replacing key ed25519:${existing.publicKey.substring(0, 20)}... in profile; it stays active until revoked`);
+  }
+
+  await saveProfile(
+    options,
+    {
+      ...baseProfile(options, existing),
+      address: wallet.address,
+      accountId,
+      publicKey: key.publicKey,
+      scope: options.scope,
+      expiration: key.expiration,
+    },
+    key.secretKey
+  );
+}
+
+async function cmdListKeys(options: Options): Promise<void> {
+  const { profile, signer } = await requireSigner(options);
+  const data = await signedRequest(profile.baseUrl, signer, "GET", "/v1/client/key_info?key_status=ACTIVE");
+  const rows: any[] = data?.rows ?? [];
+
+  if (rows.length === 0) {
+    console.log("No active keys");
+    return;
+  }
+
+  for (const row of rows) {
+    const current = row.orderly_key === signer.orderlyKey ? " (this profile)" : "";
+    const expires = row.expiration ? new Date(Number(row.expiration)).toISOString() : "never";
+    console.log(`${row.orderly_key}  scope=${row.scope}  expires=${expires}${current}`);
+  }
+}
+
+async function cmdRevokeKey(options: Options): Promise<void> {
+  const { profile, signer } = await requireSigner(options);
+  const target = options.key ?? signer.orderlyKey;
+
+  await signedRequest(profile.baseUrl, signer, "POST", "/v1/client/remove_orderly_key", { orderly_key: target });
+  console.log(`Revoked ${target}\n`);
+
+  if (target === signer.orderlyKey) {
+    const { publicKey, scope, expiration, ...rest } = profile;
+    await saveProfile(options, rest, null);
+  }
+}
+
+async function cmdRotateKey(options: Options): Promise<void> {
+  const { profile, signer: previous } = await requireSigner(options);
+  const wallet = requireWallet();
+  const key = await addKey(options, wallet);
+
+  await saveProfile(
+    options,
+    { ...profile, publicKey: key.publicKey, scope: options.scope, expiration: key.expiration },
+    key.secretKey
+  );
+
+  // Revoke with the new key so a failure here leaves the profile usable
+  const { signer } = await requireSigner(options);
+  await signedRequest(profile.baseUrl, signer, "POST", "/v1/client/remove_orderly_key", {
+    orderly_key: previous.orderlyKey,
+  });
+  console.log(`Revoked ${previous.orderlyKey}\n`);
+}
+
+async function cmdInfo(options: Options): Promise<void> {
+  const { profile, signer } = await requireSigner(options);
+  const info = await signedRequest(profile.baseUrl, signer, "GET", "/v1/client/info");
+
+  console.log(`Profile:  ${options.profileName} (${profile.network}, ${profile.baseUrl})`);
+  console.log(`Broker:   ${profile.brokerId}, chain ${profile.chainId}`);
+  if (profile.expiration) {
+    console.log(`Key:      ${signer.orderlyKey.substring(0, 28)}... expires ${new Date(profile.expiration).toISOString()}`);
+  }
+  console.log(JSON.stringify(info, null, 2));
+}
+
+async function cmdList(options: Options): Promise<void> {
+  for (const name of options.keystore.list()) {
+    const profile = options.keystore.getProfile(name) as Profile;
+    const key = options.keystore.hasSecret(name) ? "key" : "no key";
+    console.log(`${name}  ${profile.network}  account=${profile.accountId ?? "-"}  ${key}`);
+  }
+}
+
+async function cmdEnv(options: Options): Promise<void> {
+  const { profile, signer } = await requireSigner(options);
+  const secretKey = await options.keystore.getSecretKey(options.profileName, requirePassword());
+
+  console.log(`ORDERLY_BASE=${profile.baseUrl}`);
+  console.log(`ORDERLY_WS_PUBLIC=${profile.wsUrl}`);
+  console.log(`ORDERLY_ACCOUNT_ID=${signer.accountId}`);
+  console.log(`ORDERLY_PUBLIC_KEY=${profile.publicKey}`);
+  console.log(`ORDERLY_SECRET_KEY=${secretKey}`);
+}
+
+const COMMANDS: Record<string, (options: Options) => void | Promise<void>> = {
+  register: cmdRegister,
+  "add-key": cmdAddKey,
+  "list-keys": cmdListKeys,
+  "revoke-key": cmdRevokeKey,
+  "rotate-key": cmdRotateKey,
+  info: cmdInfo,
+  list: cmdList,
+  env: cmdEnv,
+};
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      network: { type: "string" },
+      broker: { type: "string" },
+      "chain-id": { type: "string" },
+      "base-url": { type: "string" },
+      profile: { type: "string" },
+      "profiles-file": { type: "string" },
+      scope: { type: "string" },
+      "expires-days": { type: "string" },
+      key: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const command = COMMANDS[positionals[0]];
+  if (values.help || !command) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const { help, ...stringValues } = values;
+  await command(await parseOptions(stringValues));
+}
+
+main().catch((error) => {
+  console.error("\nError:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
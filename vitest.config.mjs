@@ -0,0 +1,17 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+// Workspace packages resolve to their sources, so tests run without a build
+export default defineConfig({
+  resolve: {
+    alias: [
+      {
+        find: /^@aadenman\/([^/]+)$/,
+        replacement: fileURLToPath(new URL('./packages/$1/src/index.ts', import.meta.url)),
+      },
+    ],
+  },
+  test: {
+    include: ['packages/*/src/**/*.test.ts'],
+  },
+});